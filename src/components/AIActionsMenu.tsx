@@ -0,0 +1,67 @@
+import { Settings, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AI_ACTIONS, TRANSLATION_LANGUAGES, type AIAction } from '@/lib/ai';
+
+interface AIActionsMenuProps {
+  disabled: boolean;
+  /** Whether the action will run on a selection rather than the whole note. */
+  hasSelection: () => boolean;
+  onRun: (action: AIAction, language?: string) => void;
+  onOpenSettings: () => void;
+}
+
+export function AIActionsMenu({ disabled, hasSelection, onRun, onOpenSettings }: AIActionsMenuProps) {
+  const translate = AI_ACTIONS.find(action => action.id === 'translate');
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+          title="AI Actions"
+        >
+          <Sparkles className="h-4 w-4" />
+          <span className="hidden sm:inline">AI Actions</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onCloseAutoFocus={event => event.preventDefault()}>
+        <DropdownMenuLabel>{hasSelection() ? 'Selection' : 'Whole note'}</DropdownMenuLabel>
+        {AI_ACTIONS.filter(action => action !== translate).map(action => (
+          <DropdownMenuItem key={action.id} disabled={disabled} onSelect={() => onRun(action)}>
+            {action.label}
+          </DropdownMenuItem>
+        ))}
+        {translate && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger disabled={disabled}>{translate.label}</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {TRANSLATION_LANGUAGES.map(language => (
+                <DropdownMenuItem key={language} onSelect={() => onRun(translate, language)}>
+                  {language}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onOpenSettings} className="gap-2">
+          <Settings className="h-4 w-4" />
+          Provider settings…
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo, useRef } from 'react';
+import { Check, Loader2, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DiffView } from '@/components/DiffView';
+import type { AIRun } from '@/hooks/use-ai-action';
+import { combineOutput } from '@/lib/ai';
+import { diffLines } from '@/lib/line-diff';
+
+interface AIResultDialogProps {
+  run: AIRun | undefined;
+  providerName: string;
+  /** Called once the dialog has closed, so the editor can take focus. */
+  onAccept: (run: AIRun) => void;
+  onClose: () => void;
+  onStop: () => void;
+}
+
+const STATUS_TEXT: Record<AIRun['status'], string> = {
+  streaming: 'Generating…',
+  done: 'Review the changes before applying them.',
+  stopped: 'Stopped. You can still apply the partial result.',
+  error: '',
+};
+
+export function AIResultDialog({ run, providerName, onAccept, onClose, onStop }: AIResultDialogProps) {
+  const acceptedRef = useRef<AIRun>();
+  const proposed = run ? combineOutput(run.action, run.original, run.output) : '';
+  const lines = useMemo(() => diffLines(run?.original ?? '', proposed), [run?.original, proposed]);
+
+  return (
+    <Dialog open={!!run} onOpenChange={open => !open && onClose()}>
+      {run && (
+        <DialogContent
+          className="flex max-h-[85vh] max-w-3xl flex-col"
+          onCloseAutoFocus={event => {
+            const accepted = acceptedRef.current;
+            if (!accepted) return;
+            event.preventDefault();
+            acceptedRef.current = undefined;
+            onAccept(accepted);
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>
+              {run.action.label}{run.language ? ` to ${run.language}` : ''}
+            </DialogTitle>
+            <DialogDescription className="flex items-center gap-2">
+              {run.status === 'streaming' && <Loader2 className="h-3 w-3 animate-spin" />}
+              <span className={run.status === 'error' ? 'text-destructive' : ''}>
+                {run.status === 'error' ? run.error : STATUS_TEXT[run.status]}
+              </span>
+              <span className="ml-auto text-xs">{providerName}</span>
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="min-h-0 flex-1 rounded-md border border-border/60">
+            {run.output ? (
+              <DiffView lines={lines} />
+            ) : (
+              <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+                {run.status === 'streaming' ? 'Waiting for the model…' : 'No output.'}
+              </div>
+            )}
+          </ScrollArea>
+
+          <DialogFooter>
+            {run.status === 'streaming' && (
+              <Button variant="outline" className="gap-2" onClick={onStop}>
+                <Square className="h-4 w-4" />
+                Stop
+              </Button>
+            )}
+            <Button variant="ghost" className="gap-2" onClick={onClose}>
+              <X className="h-4 w-4" />
+              Reject
+            </Button>
+            <Button
+              className="gap-2"
+              disabled={run.status === 'streaming' || !run.output.trim()}
+              onClick={() => {
+                acceptedRef.current = run;
+                onClose();
+              }}
+            >
+              <Check className="h-4 w-4" />
+              Accept
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
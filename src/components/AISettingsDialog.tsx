@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DEFAULT_AI_SETTINGS, type OpenAICompatibleSettings } from '@/lib/ai';
+
+interface AISettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: OpenAICompatibleSettings;
+  onSave: (settings: OpenAICompatibleSettings) => void;
+}
+
+export function AISettingsDialog({ open, onOpenChange, settings, onSave }: AISettingsDialogProps) {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const field = (key: keyof OpenAICompatibleSettings) => ({
+    id: `ai-${key}`,
+    value: draft[key] ?? '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>AI provider</DialogTitle>
+          <DialogDescription>
+            Any server with an OpenAI-compatible chat completions API, such as Ollama or llama.cpp running locally.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={e => {
+            e.preventDefault();
+            onSave({ ...draft, baseUrl: draft.baseUrl.trim(), model: draft.model.trim() });
+          }}
+        >
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ai-baseUrl">Endpoint</Label>
+            <Input {...field('baseUrl')} placeholder={DEFAULT_AI_SETTINGS.baseUrl} required />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ai-model">Model</Label>
+            <Input {...field('model')} placeholder={DEFAULT_AI_SETTINGS.model} required />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ai-apiKey">API key</Label>
+            <Input {...field('apiKey')} type="password" placeholder="Not needed for local servers" autoComplete="off" />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setDraft(DEFAULT_AI_SETTINGS)}>Reset</Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { differenceInCalendarDays, format, isSameDay } from 'date-fns';
+import { Bell, BellOff, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Switch } from '@/components/ui/switch';
+import type { RemindersState } from '@/hooks/use-reminders';
+import { dueAt, dueDay, dueStatus, formatDue, noteDueItems, type DueItem, type DueStatus } from '@/lib/due-dates';
+import type { Note } from '@/lib/storage';
+
+interface AgendaPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notes: Note[];
+  reminders: RemindersState;
+  onOpenItem: (noteId: string, item: DueItem) => void;
+  onToggleTask: (noteId: string, line: number) => void;
+}
+
+interface AgendaEntry {
+  note: Note;
+  item: DueItem;
+  status: DueStatus;
+}
+
+const STATUS_CLASSES: Record<DueStatus, string> = {
+  overdue: 'text-destructive',
+  today: 'text-accent',
+  soon: 'text-foreground',
+  later: 'text-muted-foreground',
+};
+
+function dayHeading(day: number, now: number): string {
+  const days = differenceInCalendarDays(day, now);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return format(day, new Date(day).getFullYear() === new Date(now).getFullYear() ? 'EEEE d MMMM' : 'EEEE d MMMM yyyy');
+}
+
+export function AgendaPanel({ open, onOpenChange, notes, reminders, onOpenItem, onToggleTask }: AgendaPanelProps) {
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [showDone, setShowDone] = useState(false);
+  const { now, permission, enableNotifications } = reminders;
+
+  const entries = useMemo(() => (open ? notes : [])
+    .flatMap(note => noteDueItems(note).map((item): AgendaEntry => ({ note, item, status: dueStatus(item.due, now) })))
+    .sort((a, b) => dueAt(a.item.due) - dueAt(b.item.due)), [open, notes, now]);
+
+  // Overdue items first, then one group per day; a picked day shows only that day
+  const groups = useMemo(() => {
+    const listed = entries.filter(entry => (showDone || !entry.item.task?.checked)
+      && (!selectedDay || isSameDay(dueDay(entry.item.due), selectedDay)));
+    const byDay = new Map<string, AgendaEntry[]>();
+    listed.forEach(entry => {
+      const heading = entry.status === 'overdue' && !entry.item.task?.checked && !selectedDay
+        ? 'Overdue'
+        : dayHeading(dueDay(entry.item.due), now);
+      byDay.set(heading, [...(byDay.get(heading) ?? []), entry]);
+    });
+    const overdue = byDay.get('Overdue');
+    byDay.delete('Overdue');
+    return [...(overdue ? [['Overdue', overdue] as const] : []), ...byDay];
+  }, [entries, showDone, selectedDay, now]);
+
+  // Days with something due, marked in the calendar
+  const dueDays = useMemo(
+    () => entries.filter(entry => !entry.item.task?.checked).map(entry => new Date(dueDay(entry.item.due))),
+    [entries]
+  );
+
+  const openItem = (noteId: string, item: DueItem) => {
+    onOpenItem(noteId, item);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Agenda</SheetTitle>
+          <SheetDescription>
+            Notes and tasks with an @due(…) date, by day. Pick a day to see only that day.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={{ due: dueDays }}
+          modifiersClassNames={{ due: 'font-semibold underline decoration-accent decoration-2 underline-offset-4' }}
+          className="mx-auto rounded-md border border-border/60"
+        />
+
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Switch id="agenda-show-done" checked={showDone} onCheckedChange={setShowDone} />
+            <Label htmlFor="agenda-show-done" className="text-xs">Show completed</Label>
+          </div>
+          {permission === 'granted' ? (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Bell className="h-3.5 w-3.5" />
+              Desktop reminders on
+            </span>
+          ) : permission === 'default' ? (
+            <Button size="sm" variant="outline" className="h-7 gap-1 px-2" onClick={enableNotifications}>
+              <Bell className="h-3.5 w-3.5" />
+              Desktop reminders
+            </Button>
+          ) : (
+            <span
+              className="flex items-center gap-1 text-xs text-muted-foreground"
+              title={permission === 'denied' ? 'Notifications are blocked in the browser settings' : 'This browser has no notifications'}
+            >
+              <BellOff className="h-3.5 w-3.5" />
+              In-app reminders only
+            </span>
+          )}
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1">
+          <div className="space-y-4 pr-3">
+            {groups.length === 0 && (
+              <p className="rounded-md border border-border/60 px-3 py-8 text-center text-sm text-muted-foreground">
+                {selectedDay ? `Nothing due on ${format(selectedDay, 'd MMMM')}.` : 'Nothing is due. Add @due(2026-10-20) to a task or note.'}
+              </p>
+            )}
+            {groups.map(([heading, group]) => (
+              <section key={heading} className="space-y-1">
+                <h3 className={`text-sm font-medium ${heading === 'Overdue' ? 'text-destructive' : ''}`}>
+                  {heading} ({group.length})
+                </h3>
+                <ul className="divide-y divide-border/60 rounded-md border border-border/60 text-sm">
+                  {group.map(({ note, item, status }) => (
+                    <li key={`${note.id}:${item.line}`} className="flex items-start gap-2 px-3 py-2">
+                      {item.task ? (
+                        <Checkbox
+                          checked={item.task.checked}
+                          onCheckedChange={() => onToggleTask(note.id, item.line)}
+                          className="mt-0.5"
+                          aria-label={item.task.checked ? 'Mark as not done' : 'Mark as done'}
+                        />
+                      ) : (
+                        <FileText className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" aria-label="Note" />
+                      )}
+                      <button
+                        onClick={() => openItem(note.id, item)}
+                        className="min-w-0 flex-1 rounded text-left hover:text-accent"
+                      >
+                        <div className={`truncate ${item.task?.checked ? 'text-muted-foreground line-through' : ''}`}>
+                          {item.text || note.title}
+                        </div>
+                        {item.text && <div className="truncate text-xs text-muted-foreground">{note.title}</div>}
+                      </button>
+                      <span className={`shrink-0 text-xs tabular-nums ${item.task?.checked ? 'text-muted-foreground' : STATUS_CLASSES[status]}`}>
+                        {heading === 'Overdue' ? formatDue(item.due, now) : item.due.time ?? 'All day'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { folderPath } from '@/lib/folders';
+import type { Folder, Note } from '@/lib/storage';
+
+interface AllNotesPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notes: Note[];
+  folders: Folder[];
+  openNoteIds: string[];
+  onOpenNote: (noteId: string) => void;
+  onTrashNote: (noteId: string) => void;
+}
+
+type SortKey = 'modified' | 'title';
+
+const SORTS: Record<SortKey, (a: Note, b: Note) => number> = {
+  modified: (a, b) => b.lastModified - a.lastModified,
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true }),
+};
+
+export function AllNotesPanel({ open, onOpenChange, notes, folders, openNoteIds, onOpenNote, onTrashNote }: AllNotesPanelProps) {
+  const [sortBy, setSortBy] = useState<SortKey>('modified');
+  const [filter, setFilter] = useState('');
+
+  const listed = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return notes
+      .filter(note => !needle || note.title.toLowerCase().includes(needle))
+      .sort(SORTS[sortBy]);
+  }, [notes, filter, sortBy]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>All notes</SheetTitle>
+          <SheetDescription>
+            Every note in the library, open or not. Closing a tab keeps the note here.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Filter by title"
+            className="h-8 flex-1"
+            aria-label="Filter notes by title"
+          />
+          <Select value={sortBy} onValueChange={value => setSortBy(value as SortKey)}>
+            <SelectTrigger className="h-8 w-40" aria-label="Sort by"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="modified">Last modified</SelectItem>
+              <SelectItem value="title">Title</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1 rounded-md border border-border/60">
+          <ul className="divide-y divide-border/60 text-sm">
+            {listed.length === 0 && (
+              <li className="px-3 py-8 text-center text-muted-foreground">
+                {notes.length === 0 ? 'No notes yet.' : 'No notes match the filter.'}
+              </li>
+            )}
+            {listed.map(note => (
+              <li key={note.id} className="flex items-start gap-2 px-3 py-2">
+                <button
+                  onClick={() => {
+                    onOpenNote(note.id);
+                    onOpenChange(false);
+                  }}
+                  className="min-w-0 flex-1 rounded text-left hover:text-accent"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">{note.title}</span>
+                    {openNoteIds.includes(note.id) && (
+                      <span className="shrink-0 rounded bg-accent/20 px-1.5 text-[10px] uppercase tracking-wide text-accent">Open</span>
+                    )}
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {note.folderId ? folderPath(folders, note.folderId).join(' / ') || 'Top level' : 'Top level'}
+                  </div>
+                  <div className="text-xs text-muted-foreground/70">
+                    Modified {new Date(note.lastModified).toLocaleString()}
+                  </div>
+                </button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 hover:bg-destructive/20 hover:text-destructive"
+                  onClick={() => onTrashNote(note.id)}
+                  title="Move to trash"
+                  aria-label={`Move ${note.title} to trash`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
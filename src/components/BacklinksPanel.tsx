@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { Note } from '@/lib/storage';
+import { backlinks, unlinkedMentions, type NoteReference } from '@/lib/wiki-links';
+
+interface BacklinksPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  note: Note;
+  notes: Note[];
+  onOpenNote: (noteId: string) => void;
+  /** Turn the plain mentions of `note` in another note into [[links]]. */
+  onLinkMentions: (noteId: string) => void;
+}
+
+function ReferenceList({ references, empty, onOpen, action }: {
+  references: NoteReference[];
+  empty: string;
+  onOpen: (noteId: string) => void;
+  action?: (reference: NoteReference) => React.ReactNode;
+}) {
+  return (
+    <ul className="divide-y divide-border/60 rounded-md border border-border/60 text-sm">
+      {references.length === 0 && (
+        <li className="px-3 py-6 text-center text-muted-foreground">{empty}</li>
+      )}
+      {references.map(reference => (
+        <li key={reference.note.id} className="flex items-start gap-2 px-3 py-2">
+          <button
+            onClick={() => onOpen(reference.note.id)}
+            className="min-w-0 flex-1 rounded text-left hover:text-accent"
+          >
+            <div className="truncate font-medium">{reference.note.title}</div>
+            {reference.snippets.slice(0, 3).map((snippet, i) => (
+              <div key={i} className="truncate text-xs text-muted-foreground">{snippet}</div>
+            ))}
+          </button>
+          {action?.(reference)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function BacklinksPanel({ open, onOpenChange, note, notes, onOpenNote, onLinkMentions }: BacklinksPanelProps) {
+  // Scanning every note is only worth it while the panel is showing
+  const linked = useMemo(() => (open ? backlinks(notes, note) : []), [open, notes, note]);
+  const mentions = useMemo(() => (open ? unlinkedMentions(notes, note) : []), [open, notes, note]);
+
+  const openNote = (noteId: string) => {
+    onOpenNote(noteId);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Backlinks</SheetTitle>
+          <SheetDescription>
+            Notes that link to "{note.title}" with [[{note.title}]], and notes that mention it without a link.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="min-h-0 flex-1">
+          <div className="space-y-4 pr-3">
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Linked mentions ({linked.length})</h3>
+              <ReferenceList references={linked} empty="No notes link here yet." onOpen={openNote} />
+            </section>
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Unlinked mentions ({mentions.length})</h3>
+              <ReferenceList
+                references={mentions}
+                empty="No other notes mention this title."
+                onOpen={openNote}
+                action={reference => (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 gap-1 px-2"
+                    onClick={() => onLinkMentions(reference.note.id)}
+                    title={`Link the mentions in ${reference.note.title}`}
+                  >
+                    <Link2 className="h-3.5 w-3.5" />
+                    Link
+                  </Button>
+                )}
+              />
+            </section>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,62 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { Note } from '@/lib/storage';
+
+export interface NoteConflict {
+  local: Note;
+  remote: Note;
+}
+
+interface ConflictDialogProps {
+  conflict: NoteConflict | undefined;
+  onKeepMine: (conflict: NoteConflict) => void;
+  onUseTheirs: (conflict: NoteConflict) => void;
+  onKeepBoth: (conflict: NoteConflict) => void;
+}
+
+function Version({ label, note }: { label: string; note: Note }) {
+  return (
+    <div className="flex min-w-0 flex-1 flex-col gap-1">
+      <div className="text-xs font-medium text-muted-foreground">
+        {label} · {note.trashedAt !== undefined ? 'moved to trash' : new Date(note.lastModified).toLocaleString()}
+      </div>
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-md border border-border/60 bg-muted/40 p-2 font-mono text-xs">
+        {note.content || 'Empty note'}
+      </pre>
+    </div>
+  );
+}
+
+export function ConflictDialog({ conflict, onKeepMine, onUseTheirs, onKeepBoth }: ConflictDialogProps) {
+  return (
+    <AlertDialog open={!!conflict}>
+      {conflict && (
+        <AlertDialogContent className="max-w-3xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>“{conflict.local.title}” was changed in another window</AlertDialogTitle>
+            <AlertDialogDescription>
+              Both copies were edited at the same time. Choose which version to keep.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex gap-3">
+            <Version label="This window" note={conflict.local} />
+            <Version label="Other window" note={conflict.remote} />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => onUseTheirs(conflict)}>Use theirs</AlertDialogCancel>
+            <AlertDialogCancel onClick={() => onKeepBoth(conflict)}>Keep both</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onKeepMine(conflict)}>Keep mine</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      )}
+    </AlertDialog>
+  );
+}
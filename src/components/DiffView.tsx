@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import type { DiffLine } from '@/lib/line-diff';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+}
+
+// Unchanged runs longer than this are folded, keeping CONTEXT lines around changes
+const FOLD_THRESHOLD = 8;
+const CONTEXT = 3;
+
+type DiffRow = DiffLine | { type: 'fold'; count: number };
+
+function foldUnchanged(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    if (lines[start].type !== 'equal') {
+      rows.push(lines[start++]);
+      continue;
+    }
+    let end = start;
+    while (end < lines.length && lines[end].type === 'equal') end++;
+    const run = lines.slice(start, end);
+    const head = start === 0 ? 0 : CONTEXT;
+    const tail = end === lines.length ? 0 : CONTEXT;
+    if (run.length > FOLD_THRESHOLD && run.length > head + tail) {
+      rows.push(...run.slice(0, head), { type: 'fold', count: run.length - head - tail }, ...run.slice(run.length - tail));
+    } else {
+      rows.push(...run);
+    }
+    start = end;
+  }
+  return rows;
+}
+
+export function DiffView({ lines }: DiffViewProps) {
+  const rows = useMemo(() => foldUnchanged(lines), [lines]);
+
+  return (
+    <pre className="p-2 font-mono text-xs leading-relaxed">
+      {rows.map((row, i) => row.type === 'fold' ? (
+        <div key={i} className="select-none py-1 text-center text-muted-foreground/70">
+          ⋯ {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+        </div>
+      ) : (
+        <div
+          key={i}
+          className={`flex ${
+            row.type === 'added'
+              ? 'bg-green-500/10 text-green-700 dark:text-green-300'
+              : row.type === 'removed'
+                ? 'bg-destructive/10 text-destructive'
+                : ''
+          }`}
+        >
+          <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground/60">{row.oldLine ?? ''}</span>
+          <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground/60">{row.newLine ?? ''}</span>
+          <span className="w-4 shrink-0 select-none">{row.type === 'added' ? '+' : row.type === 'removed' ? '−' : ' '}</span>
+          <span className="whitespace-pre-wrap break-all">{row.text || ' '}</span>
+        </div>
+      ))}
+    </pre>
+  );
+}
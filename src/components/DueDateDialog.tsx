@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { dueAt, dueFromDate, dueToken, findDueItems, type DueDate } from '@/lib/due-dates';
+import type { Note } from '@/lib/storage';
+import { findTasks } from '@/lib/tasks';
+
+export interface DueDateTarget {
+  note: Note;
+  /** The task line to date; unset for the note itself. */
+  line?: number;
+}
+
+interface DueDateDialogProps {
+  target: DueDateTarget | undefined;
+  onSave: (target: DueDateTarget, due: DueDate | null) => void;
+  onClose: () => void;
+}
+
+// The date already set on the target, if any
+const currentDue = ({ note, line }: DueDateTarget) =>
+  findDueItems(note.content).find(item => (line === undefined ? !item.task : item.line === line));
+
+export function DueDateDialog({ target, onSave, onClose }: DueDateDialogProps) {
+  const [day, setDay] = useState<Date | undefined>();
+  const [time, setTime] = useState('');
+
+  const current = target && currentDue(target);
+  const taskText = target?.line !== undefined
+    ? current?.text ?? findTasks(target.note.content).find(task => task.line === target.line)?.text
+    : undefined;
+
+  useEffect(() => {
+    const existing = target && currentDue(target);
+    setDay(existing ? new Date(dueAt(existing.due)) : undefined);
+    setTime(existing?.due.time ?? '');
+  }, [target]);
+
+  const due = day ? dueFromDate(day, time) : undefined;
+
+  return (
+    <Dialog open={!!target} onOpenChange={open => !open && onClose()}>
+      {target && (
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{target.line === undefined ? `Due date of “${target.note.title}”` : 'Task due date'}</DialogTitle>
+            <DialogDescription>
+              {taskText !== undefined
+                ? `“${taskText || 'Empty task'}”. The date is written into the task line as @due(…).`
+                : 'Written at the top of the note as @due(…); a date on a task line applies to that task.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Calendar
+            mode="single"
+            selected={day}
+            onSelect={setDay}
+            defaultMonth={day}
+            className="mx-auto rounded-md border border-border/60"
+          />
+
+          <div className="flex items-center gap-2 text-sm">
+            <Label htmlFor="due-time" className="shrink-0">Time</Label>
+            <Input
+              id="due-time"
+              type="time"
+              value={time}
+              onChange={e => setTime(e.target.value)}
+              className="h-8 flex-1"
+            />
+            {time && (
+              <Button variant="ghost" size="sm" className="h-8" onClick={() => setTime('')}>
+                All day
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {due ? `Writes ${dueToken(due)}. A reminder shows ${due.time ? 'at that time' : 'at 9:00 that day'} while the app is open.` : 'Pick a day.'}
+          </p>
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {current ? (
+              <Button variant="ghost" className="text-destructive" onClick={() => onSave(target, null)}>
+                Remove date
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={onClose}>Cancel</Button>
+              <Button disabled={!due} onClick={() => due && onSave(target, due)}>Save</Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob, downloadNote, exportNotesZip, NOTE_FORMATS } from '@/lib/export';
+import type { Folder, Note } from '@/lib/storage';
+
+interface ExportMenuProps {
+  note: Note | undefined;
+  notes: Note[];
+  folders: Folder[];
+}
+
+export function ExportMenu({ note, notes, folders }: ExportMenuProps) {
+  const { toast } = useToast();
+
+  const exportAll = async () => {
+    try {
+      const blob = await exportNotesZip(notes, folders);
+      downloadBlob(blob, `notes-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch {
+      toast({
+        title: "Export failed",
+        description: "The archive could not be created.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+          title="Export"
+        >
+          <Download className="h-4 w-4" />
+          <span className="hidden sm:inline">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Current note</DropdownMenuLabel>
+        {NOTE_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem
+            key={format}
+            disabled={!note}
+            onSelect={() => note && downloadNote(note, format)}
+          >
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem disabled={notes.length === 0} onSelect={exportAll}>
+          All notes (.zip)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
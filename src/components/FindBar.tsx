@@ -0,0 +1,135 @@
+import { useEffect, useRef } from 'react';
+import { ArrowDown, ArrowUp, CaseSensitive, ChevronDown, ChevronRight, Regex, Replace, ReplaceAll, WholeWord, X } from 'lucide-react';
+import { Toggle } from '@/components/ui/toggle';
+import type { FindReplaceState } from '@/hooks/use-find-replace';
+import type { FindOptions } from '@/lib/find-replace';
+
+interface FindBarProps {
+  find: FindReplaceState;
+  /** " (Ctrl+H)" from the user's keymap, or empty when unbound. */
+  replaceShortcutHint: string;
+}
+
+const OPTION_TOGGLES: { key: keyof FindOptions; label: string; icon: typeof Regex }[] = [
+  { key: 'caseSensitive', label: 'Match case', icon: CaseSensitive },
+  { key: 'wholeWord', label: 'Match whole word', icon: WholeWord },
+  { key: 'regex', label: 'Use regular expression', icon: Regex },
+];
+
+const iconButton = 'p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary/80 disabled:opacity-40 disabled:pointer-events-none transition-colors';
+const fieldClass = 'h-8 w-56 rounded-md border bg-background px-2 text-sm outline-none focus:ring-1 focus:ring-ring';
+
+export function FindBar({ find, replaceShortcutHint }: FindBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Focus the query every time the bar is (re)opened, e.g. Ctrl+F while open
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [find.openCount]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      find.close();
+    }
+  };
+
+  const status = find.error
+    ? 'Invalid pattern'
+    : find.query
+      ? find.matches.length > 0
+        ? `${find.current + 1} of ${find.matches.length}`
+        : 'No results'
+      : '';
+
+  return (
+    <div
+      className="absolute right-6 top-2 z-20 flex gap-1 rounded-lg border border-border/60 bg-card/95 p-1.5 shadow-notepad-elevated backdrop-blur-sm animate-fade-in"
+      onKeyDown={handleKeyDown}
+      role="search"
+    >
+      <button
+        onClick={() => find.setShowReplace(!find.showReplace)}
+        className={iconButton}
+        title={`Toggle replace${replaceShortcutHint}`}
+        aria-label="Toggle replace"
+        aria-expanded={find.showReplace}
+      >
+        {find.showReplace ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+      </button>
+
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-1">
+          <input
+            ref={inputRef}
+            value={find.query}
+            onChange={(e) => find.search(e.target.value, find.options)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                if (e.shiftKey) find.previous();
+                else find.next();
+              }
+            }}
+            placeholder="Find"
+            aria-label="Find"
+            aria-invalid={!!find.error}
+            title={find.error ?? undefined}
+            className={`${fieldClass} ${find.error ? 'border-destructive' : 'border-border/60'}`}
+          />
+          {OPTION_TOGGLES.map(({ key, label, icon: Icon }) => (
+            <Toggle
+              key={key}
+              size="sm"
+              pressed={find.options[key]}
+              onPressedChange={(pressed) => find.search(find.query, { ...find.options, [key]: pressed })}
+              className="h-8 w-8 p-0 data-[state=on]:bg-accent/20 data-[state=on]:text-accent"
+              title={label}
+              aria-label={label}
+            >
+              <Icon className="h-4 w-4" />
+            </Toggle>
+          ))}
+          <span className={`w-20 text-center text-xs tabular-nums ${find.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {status}
+          </span>
+          <button onClick={find.previous} disabled={find.matches.length === 0} className={iconButton} title="Previous match (Shift+Enter)" aria-label="Previous match">
+            <ArrowUp className="h-4 w-4" />
+          </button>
+          <button onClick={find.next} disabled={find.matches.length === 0} className={iconButton} title="Next match (Enter)" aria-label="Next match">
+            <ArrowDown className="h-4 w-4" />
+          </button>
+          <button onClick={find.close} className={iconButton} title="Close (Escape)" aria-label="Close find">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {find.showReplace && (
+          <div className="flex items-center gap-1">
+            <input
+              value={find.replacement}
+              onChange={(e) => find.setReplacement(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  if (e.ctrlKey || e.metaKey) find.replaceAllMatches();
+                  else find.replaceCurrent();
+                }
+              }}
+              placeholder={find.options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+              aria-label="Replace"
+              className={`${fieldClass} border-border/60`}
+            />
+            <button onClick={find.replaceCurrent} disabled={find.matches.length === 0} className={iconButton} title="Replace (Enter)" aria-label="Replace">
+              <Replace className="h-4 w-4" />
+            </button>
+            <button onClick={find.replaceAllMatches} disabled={find.matches.length === 0} className={iconButton} title="Replace all (Ctrl+Enter)" aria-label="Replace all">
+              <ReplaceAll className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { DiffView } from '@/components/DiffView';
+import { diffLines } from '@/lib/line-diff';
+import type { Note, Revision } from '@/lib/storage';
+
+interface HistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  note: Note;
+  loadRevisions: (noteId: string) => Promise<Revision[]>;
+  onRestore: (revision: Revision) => void;
+}
+
+const CURRENT = 'current';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export function HistoryPanel({ open, onOpenChange, note, loadRevisions, onRestore }: HistoryPanelProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [fromId, setFromId] = useState<string>(CURRENT);
+  const [toId, setToId] = useState<string>(CURRENT);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    loadRevisions(note.id).then(loaded => {
+      if (cancelled) return;
+      const newestFirst = [...loaded].reverse();
+      setRevisions(newestFirst);
+      setFromId(newestFirst[0]?.id ?? CURRENT);
+      setToId(CURRENT);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, note.id, loadRevisions]);
+
+  const contentOf = (id: string) =>
+    id === CURRENT ? note.content : revisions.find(revision => revision.id === id)?.content ?? '';
+
+  const fromContent = contentOf(fromId);
+  const toContent = contentOf(toId);
+  const lines = useMemo(() => diffLines(fromContent, toContent), [fromContent, toContent]);
+  const added = lines.filter(line => line.type === 'added').length;
+  const removed = lines.filter(line => line.type === 'removed').length;
+
+  const versionOptions = (
+    <>
+      <SelectItem value={CURRENT}>Current</SelectItem>
+      {revisions.map(revision => (
+        <SelectItem key={revision.id} value={revision.id}>{formatTime(revision.lastModified)}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle>History of “{note.title}”</SheetTitle>
+          <SheetDescription>
+            Snapshots are taken as you save. Restoring keeps the current text as a revision.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex min-h-0 flex-1 gap-4">
+          <ScrollArea className="w-56 shrink-0 rounded-md border border-border/60">
+            <ul className="p-1 text-sm">
+              {revisions.length === 0 && (
+                <li className="px-2 py-6 text-center text-muted-foreground">No revisions yet.</li>
+              )}
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => {
+                      setFromId(revision.id);
+                      setToId(CURRENT);
+                    }}
+                    className={`w-full rounded px-2 py-1.5 text-left transition-colors ${
+                      fromId === revision.id ? 'bg-accent/20 text-foreground' : 'text-muted-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    <div>{formatTime(revision.lastModified)}</div>
+                    <div className="text-xs opacity-70">{revision.content.length} characters</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+
+          <div className="flex min-w-0 flex-1 flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="h-8 w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>{versionOptions}</SelectContent>
+              </Select>
+              <span className="text-muted-foreground">→</span>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="h-8 w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>{versionOptions}</SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">
+                <span className="text-green-600 dark:text-green-400">+{added}</span>{' '}
+                <span className="text-destructive">−{removed}</span>
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                className="ml-auto gap-2"
+                disabled={fromId === CURRENT}
+                onClick={() => {
+                  const revision = revisions.find(r => r.id === fromId);
+                  if (revision) onRestore(revision);
+                }}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Restore
+              </Button>
+            </div>
+
+            <ScrollArea className="min-h-0 flex-1 rounded-md border border-border/60">
+              <DiffView lines={lines} />
+            </ScrollArea>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
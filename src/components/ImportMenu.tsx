@@ -0,0 +1,61 @@
+import { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { IMPORT_ACCEPT, sourcesFromFileList, type ImportSource } from '@/lib/import';
+
+interface ImportMenuProps {
+  onImport: (sources: ImportSource[]) => void;
+}
+
+export function ImportMenu({ onImport }: ImportMenuProps) {
+  const filesRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) onImport(sourcesFromFileList(e.target.files));
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+            title="Import"
+          >
+            <Upload className="h-4 w-4" />
+            <span className="hidden sm:inline">Import</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => filesRef.current?.click()}>
+            Files (.md, .txt, .zip, Keep, Simplenote, Evernote)…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => folderRef.current?.click()}>
+            Folder…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input ref={filesRef} type="file" multiple accept={IMPORT_ACCEPT} className="hidden" onChange={handleChange} />
+      <input
+        ref={folderRef}
+        type="file"
+        className="hidden"
+        onChange={handleChange}
+        // Not in React's typings, but supported by all current browsers
+        {...{ webkitdirectory: '' }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+import { CheckCircle2, MinusCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ImportReport } from '@/lib/import';
+
+interface ImportReportDialogProps {
+  report: ImportReport | null;
+  onClose: () => void;
+}
+
+export function ImportReportDialog({ report, onClose }: ImportReportDialogProps) {
+  return (
+    <Dialog open={!!report} onOpenChange={(open) => !open && onClose()}>
+      {report && (
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import finished</DialogTitle>
+            <DialogDescription>
+              {report.imported.length} {report.imported.length === 1 ? 'note' : 'notes'} imported
+              {report.skipped.length > 0 && `, ${report.skipped.length} skipped`}.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-80">
+            <ul className="space-y-1 pr-3 text-sm">
+              {report.imported.map(({ source, note }) => (
+                <li key={note.id} className="flex items-start gap-2">
+                  <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-accent" />
+                  <div className="min-w-0">
+                    <div className="truncate font-medium">{note.title}</div>
+                    <div className="truncate text-xs text-muted-foreground">{source}</div>
+                  </div>
+                </li>
+              ))}
+              {report.skipped.map(({ source, reason }, i) => (
+                <li key={`${source}-${i}`} className="flex items-start gap-2">
+                  <MinusCircle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <div className="truncate">{source}</div>
+                    <div className="truncate text-xs text-muted-foreground">{reason}</div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShortcutKeys } from '@/components/ShortcutKeys';
+import type { KeymapState } from '@/hooks/use-keymap';
+import { COMMANDS, commandTitle, type CommandDefinition, type CommandId } from '@/lib/commands';
+import { comboFromEvent, conflictingCommands } from '@/lib/keymap';
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  keymap: KeymapState;
+}
+
+// Longest chord that can be recorded
+const MAX_CHORD_LENGTH = 2;
+
+const GROUPS = [...new Set(COMMANDS.map(command => command.group))];
+
+// Captures the next key presses as a shortcut; Escape cancels, Tab moves on
+function ShortcutRecorder({ command, keymap, onDone }: {
+  command: CommandDefinition;
+  keymap: KeymapState;
+  onDone: () => void;
+}) {
+  const [combos, setCombos] = useState<string[]>([]);
+  const fieldRef = useRef<HTMLDivElement>(null);
+  const shortcut = combos.join(' ');
+  const conflicts = shortcut ? conflictingCommands(keymap.keymap, shortcut, command.id) : [];
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Tab' && !e.ctrlKey && !e.altKey && !e.metaKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onDone();
+      return;
+    }
+    const combo = comboFromEvent(e);
+    if (!combo) return;
+    setCombos(prev => (prev.length >= MAX_CHORD_LENGTH ? [combo] : [...prev, combo]));
+  };
+
+  useEffect(() => {
+    fieldRef.current?.focus();
+  }, []);
+
+  const save = () => {
+    keymap.setShortcuts(command.id, [shortcut]);
+    onDone();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={fieldRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="flex min-h-8 items-center rounded-md border border-accent/60 bg-accent/5 px-2 text-xs text-muted-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        aria-label={`Press the new shortcut for ${command.title}`}
+        role="textbox"
+        aria-live="polite"
+      >
+        {shortcut ? <ShortcutKeys shortcut={shortcut} /> : 'Press keys… (a second combo makes a chord)'}
+      </div>
+      {conflicts.length > 0 && (
+        <p className="text-xs text-destructive">
+          Already used by {conflicts.map(commandTitle).join(', ')}.
+        </p>
+      )}
+      <div className="flex gap-1">
+        <Button size="sm" className="h-7" disabled={!shortcut || conflicts.length > 0} onClick={save}>
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" className="h-7" disabled={!shortcut} onClick={() => setCombos([])}>
+          Clear
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7"
+          onClick={() => {
+            keymap.setShortcuts(command.id, []);
+            onDone();
+          }}
+        >
+          Remove shortcut
+        </Button>
+        <Button size="sm" variant="ghost" className="ml-auto h-7" onClick={onDone}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function KeyboardShortcutsDialog({ open, onOpenChange, keymap }: KeyboardShortcutsDialogProps) {
+  const [editingId, setEditingId] = useState<CommandId | null>(null);
+
+  useEffect(() => {
+    if (!open) setEditingId(null);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      {/* Escape while recording cancels the recording, not the dialog */}
+      <DialogContent
+        className="flex max-h-[85vh] flex-col sm:max-w-2xl"
+        onEscapeKeyDown={(e) => {
+          if (!editingId) return;
+          e.preventDefault();
+          setEditingId(null);
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Ctrl also means ⌘ on macOS. Choose Change to record a new shortcut; changes are kept in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {keymap.conflicts.length > 0 && (
+          <div className="flex gap-2 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-xs text-destructive">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <ul className="space-y-1">
+              {keymap.conflicts.map(conflict => (
+                <li key={conflict.shortcut}>
+                  <ShortcutKeys shortcut={conflict.shortcut} /> is shared by {conflict.commandIds.map(commandTitle).join(' and ')}.
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <ScrollArea className="-mx-6 min-h-0 flex-1 px-6">
+          <div className="space-y-5 pb-1">
+            {GROUPS.map(group => (
+              <section key={group} className="space-y-1">
+                <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{group}</h3>
+                <ul className="divide-y divide-border/60 text-sm">
+                  {COMMANDS.filter(command => command.group === group).map(command => {
+                    const shortcuts = keymap.keymap[command.id];
+                    const isCustom = keymap.overrides[command.id] !== undefined;
+                    return (
+                      <li key={command.id} className="py-1.5">
+                        <div className="flex items-center gap-3">
+                          <span className="flex-1">{command.title}</span>
+                          <span className="flex flex-wrap justify-end gap-2">
+                            {shortcuts.length === 0 && <span className="text-xs text-muted-foreground">None</span>}
+                            {shortcuts.map(shortcut => <ShortcutKeys key={shortcut} shortcut={shortcut} />)}
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => setEditingId(command.id)}
+                            aria-label={`Change shortcut for ${command.title}`}
+                          >
+                            Change
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs"
+                            disabled={!isCustom}
+                            onClick={() => keymap.resetShortcuts(command.id)}
+                            aria-label={`Reset shortcut for ${command.title}`}
+                          >
+                            Reset
+                          </Button>
+                        </div>
+                        {editingId === command.id && (
+                          <div className="mt-2">
+                            <ShortcutRecorder command={command} keymap={keymap} onDone={() => setEditingId(null)} />
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={Object.keys(keymap.overrides).length === 0}
+            onClick={() => keymap.resetShortcuts()}
+          >
+            Reset all to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
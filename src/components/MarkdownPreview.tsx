@@ -0,0 +1,111 @@
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import { renderMarkdown } from '@/lib/markdown';
+import { renderDiagrams, renderMath } from '@/lib/render-embeds';
+import { sanitizeHtml } from '@/lib/sanitize-html';
+
+interface MarkdownPreviewProps {
+  content: string;
+  onScroll?: React.UIEventHandler<HTMLDivElement>;
+  /** Called with the target title when a [[wiki link]] is clicked. */
+  onWikiLinkClick?: (target: string) => void;
+  /** Links for which this returns false are styled as not yet existing. */
+  wikiLinkExists?: (target: string) => boolean;
+  /** Called with the source line (0-based) of a task whose checkbox was clicked. */
+  onToggleTask?: (line: number) => void;
+}
+
+// How long "Copied" shows on a code block's copy button
+const COPY_FEEDBACK_MS = 1500;
+
+export const MarkdownPreview = forwardRef<HTMLDivElement, MarkdownPreviewProps>(
+  ({ content, onScroll, onWikiLinkClick, wikiLinkExists, onToggleTask }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    useImperativeHandle(ref, () => containerRef.current!);
+
+    const html = useMemo(
+      () => sanitizeHtml(renderMarkdown(content, { sourceLines: true })),
+      [content]
+    );
+
+    useEffect(() => {
+      if (!wikiLinkExists || !containerRef.current) return;
+      containerRef.current.querySelectorAll<HTMLElement>('a[data-wiki-link]').forEach(link => {
+        link.toggleAttribute('data-missing', !wikiLinkExists(link.dataset.wikiLink ?? ''));
+      });
+    }, [html, wikiLinkExists]);
+
+    // Copy buttons for code blocks; buttons cannot come through the sanitized HTML
+    useEffect(() => {
+      const buttons = Array.from(containerRef.current?.querySelectorAll('.code-block-header') ?? []).map(header => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'code-block-copy';
+        button.textContent = 'Copy';
+        button.setAttribute('aria-label', 'Copy code');
+        header.appendChild(button);
+        return button;
+      });
+      return () => buttons.forEach(button => button.remove());
+    }, [html]);
+
+    // Math and diagrams render into their placeholders once the HTML is in place
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      renderMath(container);
+      const renderAllDiagrams = () => renderDiagrams(container, document.documentElement.classList.contains('dark'));
+      renderAllDiagrams();
+      // Diagrams are themed when drawn, so redraw them when dark mode is toggled
+      const observer = new MutationObserver(renderAllDiagrams);
+      observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+      return () => observer.disconnect();
+    }, [html]);
+
+    const copyCode = (button: HTMLElement) => {
+      const code = button.closest('.code-block')?.querySelector('code')?.textContent ?? '';
+      const showResult = (label: string) => {
+        button.textContent = label;
+        setTimeout(() => {
+          button.textContent = 'Copy';
+        }, COPY_FEEDBACK_MS);
+      };
+      navigator.clipboard.writeText(code).then(
+        () => showResult('Copied'),
+        () => showResult('Copy failed')
+      );
+    };
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const copyButton = (e.target as Element).closest<HTMLElement>('.code-block-copy');
+      if (copyButton) {
+        copyCode(copyButton);
+        return;
+      }
+      const checkbox = (e.target as Element).closest('input[type="checkbox"]');
+      const taskItem = checkbox?.closest<HTMLElement>('li[data-task-line]');
+      if (taskItem) {
+        // The box reflects the note once it is re-rendered, not the click itself
+        e.preventDefault();
+        const line = taskItem.dataset.taskLine ?? '';
+        if (/^\d+$/.test(line)) onToggleTask?.(Number(line));
+        return;
+      }
+      const link = (e.target as Element).closest<HTMLElement>('a[data-wiki-link]');
+      if (!link) return;
+      e.preventDefault();
+      if (link.dataset.wikiLink) onWikiLinkClick?.(link.dataset.wikiLink);
+    };
+
+    return (
+      <div
+        ref={containerRef}
+        onScroll={onScroll}
+        onClick={handleClick}
+        className="h-full p-6 overflow-y-auto prose prose-sm dark:prose-invert max-w-none bg-gradient-to-br from-card to-background/50 animate-scale-in [&_a.wiki-link]:text-accent [&_a.wiki-link]:decoration-accent/40 [&_a.wiki-link[data-missing]]:text-muted-foreground [&_a.wiki-link[data-missing]]:decoration-dashed [&_li[data-task-line]>input]:cursor-pointer [&_li[data-task-line]>p>input]:cursor-pointer"
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    );
+  }
+);
+
+MarkdownPreview.displayName = 'MarkdownPreview';
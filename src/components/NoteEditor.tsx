@@ -0,0 +1,345 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { defaultKeymap } from '@codemirror/commands';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { bracketMatching, syntaxHighlighting } from '@codemirror/language';
+import { selectNextOccurrence } from '@codemirror/search';
+import { Annotation, Compartment, EditorState, Prec } from '@codemirror/state';
+import {
+  crosshairCursor,
+  drawSelection,
+  dropCursor,
+  EditorView,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers as lineNumberGutter,
+  placeholder,
+  rectangularSelection,
+  type KeyBinding,
+} from '@codemirror/view';
+import { findCompletion, type Completion, type CompletionSource } from '@/lib/completion';
+import { editorTheme, findHighlights, markdownHighlightStyle, setFindHighlights, type NoteEditorHandle } from '@/lib/editor';
+import type { TextMatch } from '@/lib/find-replace';
+import { changedRange } from '@/lib/undo';
+
+interface NoteEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onScroll?: () => void;
+  highlights?: TextMatch[];
+  /** Index into `highlights` drawn as the current match. */
+  currentHighlight?: number;
+  /** Autocompletion triggered by the text before the caret. */
+  completions?: CompletionSource[];
+  /** Replace the browser's own undo (e.g. from the context menu) with the note's history. */
+  onUndo?: () => void;
+  onRedo?: () => void;
+  lineNumbers?: boolean;
+  softWrap?: boolean;
+}
+
+type OpenCompletion = Completion & { index: number; top: number; left: number };
+
+const COMPLETION_LIST_ID = 'note-editor-completions';
+
+// Shared default, so an unchanged prop does not re-dispatch the highlights
+const NO_HIGHLIGHTS: TextMatch[] = [];
+
+// Marks transactions that apply the `value` prop, so they are not echoed back through onChange
+const fromProps = Annotation.define<boolean>();
+
+const EDITOR_KEYMAP: KeyBinding[] = [
+  // Ctrl+[ and Ctrl+] switch tabs (see lib/commands.ts) instead of indenting,
+  // and Ctrl+Enter toggles a task instead of inserting a blank line
+  ...defaultKeymap.filter(binding => !['Mod-[', 'Mod-]', 'Mod-Enter'].includes(binding.key ?? '')),
+  { key: 'Mod-d', run: selectNextOccurrence, preventDefault: true },
+];
+
+const gutterExtensions = (show: boolean) => (show ? [lineNumberGutter(), highlightActiveLineGutter()] : []);
+const wrapExtensions = (wrap: boolean) => (wrap ? EditorView.lineWrapping : []);
+
+/**
+ * Markdown editor built on CodeMirror, controlled like a textarea: `value` is
+ * the note's text and every edit is reported through `onChange`. The rest of
+ * the app reaches it through NoteEditorHandle.
+ */
+export const NoteEditor = forwardRef<NoteEditorHandle, NoteEditorProps>(
+  ({
+    value,
+    onChange,
+    onScroll,
+    highlights = NO_HIGHLIGHTS,
+    currentHighlight = -1,
+    completions = [],
+    onUndo,
+    onRedo,
+    lineNumbers = false,
+    softWrap = true,
+  }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<EditorView | null>(null);
+    // The text the view and the `value` prop last agreed on
+    const syncedValueRef = useRef(value);
+    const gutterRef = useRef(new Compartment());
+    const wrapRef = useRef(new Compartment());
+    const [completion, setCompletion] = useState<OpenCompletion | null>(null);
+    // Start of a completion closed with Escape or just accepted; it stays closed
+    const dismissedRef = useRef<number | null>(null);
+
+    const refreshCompletion = (view: EditorView) => {
+      const selection = view.state.selection;
+      const caret = selection.main.head;
+      const line = view.state.doc.lineAt(caret);
+      const found = selection.ranges.length === 1 && selection.main.empty
+        ? findCompletion(line.text, caret - line.from, completions)
+        : null;
+      const from = found ? found.from + line.from : -1;
+      const coords = found && from !== dismissedRef.current ? view.coordsAtPos(from) : null;
+      const container = containerRef.current;
+      if (!found || !coords || !container) {
+        setCompletion(null);
+        return;
+      }
+      dismissedRef.current = null;
+      const box = container.getBoundingClientRect();
+      setCompletion(prev => ({
+        ...found,
+        from,
+        to: found.to + line.from,
+        index: prev?.from === from ? Math.min(prev.index, found.options.length - 1) : 0,
+        top: coords.bottom - box.top,
+        left: Math.min(coords.left - box.left, box.width - 200),
+      }));
+    };
+
+    const acceptCompletion = (option: string) => {
+      const view = viewRef.current;
+      if (!view || !completion) return;
+      const text = completion.source.insert(option);
+      dismissedRef.current = completion.from;
+      setCompletion(null);
+      view.dispatch({
+        changes: { from: completion.from, to: completion.to, insert: text },
+        selection: { anchor: completion.from + text.length },
+        userEvent: 'input.complete',
+      });
+    };
+
+    // Whether the key was used by the open completion list
+    const handleCompletionKey = (e: KeyboardEvent) => {
+      if (!completion) return false;
+      const count = completion.options.length;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletion({ ...completion, index: (completion.index + step + count) % count });
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        acceptCompletion(completion.options[completion.index]);
+      } else if (e.key === 'Escape') {
+        dismissedRef.current = completion.from;
+        setCompletion(null);
+      } else {
+        return false;
+      }
+      e.preventDefault();
+      return true;
+    };
+
+    // The view is created once; its listeners always reach the latest props
+    const latestRef = useRef({ value, lineNumbers, softWrap, onChange, onScroll, onUndo, onRedo, refreshCompletion, handleCompletionKey });
+    latestRef.current = { value, lineNumbers, softWrap, onChange, onScroll, onUndo, onRedo, refreshCompletion, handleCompletionKey };
+
+    useEffect(() => {
+      const initial = latestRef.current;
+      // Positions can only be read outside of CodeMirror's update cycle
+      const scheduleCompletion = (view: EditorView) => view.requestMeasure({
+        key: 'note-editor-completion',
+        read: view => latestRef.current.refreshCompletion(view),
+      });
+
+      const view = new EditorView({
+        parent: containerRef.current!,
+        state: EditorState.create({
+          doc: initial.value,
+          extensions: [
+            gutterRef.current.of(gutterExtensions(initial.lineNumbers)),
+            wrapRef.current.of(wrapExtensions(initial.softWrap)),
+            highlightSpecialChars(),
+            drawSelection(),
+            dropCursor(),
+            EditorState.allowMultipleSelections.of(true),
+            rectangularSelection(),
+            crosshairCursor(),
+            highlightActiveLine(),
+            bracketMatching(),
+            // Also binds Enter to continue lists and quotes, Backspace to remove their markup
+            markdown({ base: markdownLanguage }),
+            syntaxHighlighting(markdownHighlightStyle),
+            placeholder('Start typing your note...'),
+            findHighlights,
+            editorTheme,
+            Prec.highest(EditorView.domEventHandlers({
+              keydown: e => latestRef.current.handleCompletionKey(e),
+            })),
+            keymap.of(EDITOR_KEYMAP),
+            EditorView.domEventHandlers({
+              scroll: (_e, view) => {
+                latestRef.current.onScroll?.();
+                scheduleCompletion(view);
+              },
+              blur: () => setCompletion(null),
+              beforeinput: (e) => {
+                const handler = e.inputType === 'historyUndo' ? latestRef.current.onUndo
+                  : e.inputType === 'historyRedo' ? latestRef.current.onRedo
+                  : undefined;
+                if (!handler) return false;
+                e.preventDefault();
+                handler();
+                return true;
+              },
+            }),
+            EditorView.updateListener.of(update => {
+              if (update.transactions.some(tr => tr.annotation(fromProps))) return;
+              if (update.docChanged) {
+                syncedValueRef.current = update.state.doc.toString();
+                latestRef.current.onChange(syncedValueRef.current);
+              }
+              if (update.docChanged || update.selectionSet) scheduleCompletion(update.view);
+            }),
+            EditorView.contentAttributes.of({ 'aria-label': 'Note text' }),
+          ],
+        }),
+      });
+      viewRef.current = view;
+      return () => {
+        view.destroy();
+        viewRef.current = null;
+      };
+    }, []);
+
+    // Content changed outside the editor (undo, replacements, other windows)
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view || value === syncedValueRef.current) return;
+      const current = view.state.doc.toString();
+      syncedValueRef.current = value;
+      if (value === current) return;
+      // Replace only the span that differs so cursors elsewhere stay put
+      const { start, beforeEnd, afterEnd } = changedRange(current, value);
+      view.dispatch({
+        changes: { from: start, to: beforeEnd, insert: value.slice(start, afterEnd) },
+        annotations: fromProps.of(true),
+      });
+    }, [value]);
+
+    useEffect(() => {
+      viewRef.current?.dispatch({ effects: gutterRef.current.reconfigure(gutterExtensions(lineNumbers)) });
+    }, [lineNumbers]);
+
+    useEffect(() => {
+      viewRef.current?.dispatch({ effects: wrapRef.current.reconfigure(wrapExtensions(softWrap)) });
+    }, [softWrap]);
+
+    useEffect(() => {
+      viewRef.current?.dispatch({ effects: setFindHighlights.of({ matches: highlights, current: currentHighlight }) });
+    }, [highlights, currentHighlight]);
+
+    // Combobox semantics belong on the element that has focus
+    useEffect(() => {
+      const content = viewRef.current?.contentDOM;
+      if (!content) return;
+      const attributes: Record<string, string | undefined> = completions.length > 0
+        ? {
+          role: 'combobox',
+          'aria-expanded': String(!!completion),
+          'aria-autocomplete': 'list',
+          'aria-controls': completion ? COMPLETION_LIST_ID : undefined,
+          'aria-activedescendant': completion ? `${COMPLETION_LIST_ID}-${completion.index}` : undefined,
+        }
+        : {};
+      for (const name of ['role', 'aria-expanded', 'aria-autocomplete', 'aria-controls', 'aria-activedescendant']) {
+        const attribute = attributes[name];
+        if (attribute === undefined) content.removeAttribute(name);
+        else content.setAttribute(name, attribute);
+      }
+    }, [completions.length, completion]);
+
+    useImperativeHandle(ref, () => ({
+      focus: () => viewRef.current?.focus(),
+      getSelection: () => {
+        const main = viewRef.current?.state.selection.main;
+        return main ? { start: main.from, end: main.to } : { start: 0, end: 0 };
+      },
+      select: (start, end, { focus = true } = {}) => {
+        const view = viewRef.current;
+        if (!view) return;
+        const length = view.state.doc.length;
+        const anchor = Math.min(start, length);
+        view.dispatch({
+          selection: { anchor, head: Math.min(end, length) },
+          effects: EditorView.scrollIntoView(anchor, { y: 'center' }),
+        });
+        if (focus) view.focus();
+      },
+      replaceRange: (start, end, text) => {
+        viewRef.current?.dispatch({
+          changes: { from: start, to: end, insert: text },
+          selection: { anchor: start + text.length },
+          userEvent: 'input.replace',
+        });
+      },
+      topLine: () => {
+        const view = viewRef.current;
+        if (!view) return 0;
+        const height = Math.max(0, view.scrollDOM.scrollTop - view.documentPadding.top);
+        const block = view.lineBlockAtHeight(height);
+        const line = view.state.doc.lineAt(block.from).number - 1;
+        return line + (block.height > 0 ? Math.min(1, Math.max(0, (height - block.top) / block.height)) : 0);
+      },
+      scrollToLine: (line) => {
+        const view = viewRef.current;
+        if (!view) return;
+        const doc = view.state.doc;
+        const whole = Math.min(doc.lines - 1, Math.floor(line));
+        const block = view.lineBlockAt(doc.line(whole + 1).from);
+        view.scrollDOM.scrollTop = block.top + (line - whole) * block.height + view.documentPadding.top;
+      },
+    }), []);
+
+    return (
+      <div
+        data-note-editor
+        className="relative h-full w-full focus-within:bg-gradient-to-br focus-within:from-card focus-within:to-accent/5 transition-all duration-300"
+      >
+        <div ref={containerRef} className="h-full" />
+        {completion && (
+          <ul
+            id={COMPLETION_LIST_ID}
+            role="listbox"
+            className="absolute z-20 min-w-40 max-w-64 overflow-hidden rounded-md border bg-popover p-1 text-sm text-popover-foreground shadow-md animate-fade-in"
+            style={{ top: completion.top, left: Math.max(0, completion.left) }}
+          >
+            {completion.options.map((option, i) => (
+              <li
+                key={option}
+                id={`${COMPLETION_LIST_ID}-${i}`}
+                role="option"
+                aria-selected={i === completion.index}
+                // Keep focus (and the caret) in the editor
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => acceptCompletion(option)}
+                className={`cursor-pointer truncate rounded-sm px-2 py-1 ${
+                  i === completion.index ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                {completion.source.label?.(option) ?? option}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+NoteEditor.displayName = 'NoteEditor';
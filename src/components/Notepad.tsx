@@ -1,29 +1,133 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Plus, X, Moon, Sun, Eye, Edit3, Save, GripVertical } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Plus, X, Moon, Sun, Eye, Edit3, Save, GripVertical, Columns2, Search, History, Trash2, Library, Link2, Pin, ChevronLeft, ChevronRight, ListChecks, CalendarDays, AlarmClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
+import { useAIAction, type AIRun } from '@/hooks/use-ai-action';
+import { useFindReplace } from '@/hooks/use-find-replace';
+import { useFolders } from '@/hooks/use-folders';
+import { useOpenTabs } from '@/hooks/use-open-tabs';
+import { useReminders } from '@/hooks/use-reminders';
+import { useRevisionHistory } from '@/hooks/use-revision-history';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { useKeymap } from '@/hooks/use-keymap';
+import { useScrollSync } from '@/hooks/use-scroll-sync';
+import { PINNED_TAB_WIDTH, TAB_WIDTH, useTabStrip, wrapTabRows } from '@/hooks/use-tab-strip';
+import { useTrash } from '@/hooks/use-trash';
+import { useSearchIndex } from '@/hooks/use-search-index';
+import { folderPath } from '@/lib/folders';
+import type { CommandId } from '@/lib/commands';
+import { dueSummary, formatDue, noteDueItem, setDueDate, type DueDate, type DueItem } from '@/lib/due-dates';
+import { loadEditorSettings, saveEditorSettings, type EditorSettings, type NoteEditorHandle } from '@/lib/editor';
+import { downloadNote, NOTE_FORMATS } from '@/lib/export';
+import { combineOutput, createOpenAICompatibleProvider, loadAISettings, saveAISettings, type AIAction, type OpenAICompatibleSettings } from '@/lib/ai';
+import { hasFiles, importSources, sourcesFromDataTransfer, type ImportReport, type ImportSource } from '@/lib/import';
+import type { SearchResult } from '@/lib/search-index';
+import { hashtagCompletion, matchesTagFilter, normalizeTag, renameTag, tagCounts, type TagFilter } from '@/lib/tags';
+import { noteTasks, taskProgress, toggleTask, toggleTaskLines, type Task } from '@/lib/tasks';
+import { changedRange } from '@/lib/undo';
+import { backlinks, findNoteByTitle, linkMentions, renameWikiLinks, titleKey, wikiLinkCompletion } from '@/lib/wiki-links';
+import { DragDropContext, Droppable, Draggable, type DropResult } from '@hello-pangea/dnd';
+import { AIActionsMenu } from '@/components/AIActionsMenu';
+import { AIResultDialog } from '@/components/AIResultDialog';
+import { AllNotesPanel } from '@/components/AllNotesPanel';
+import { AISettingsDialog } from '@/components/AISettingsDialog';
+import { AgendaPanel } from '@/components/AgendaPanel';
+import { BacklinksPanel } from '@/components/BacklinksPanel';
+import { ConflictDialog, type NoteConflict } from '@/components/ConflictDialog';
+import { DueDateDialog, type DueDateTarget } from '@/components/DueDateDialog';
+import { ExportMenu } from '@/components/ExportMenu';
+import { FindBar } from '@/components/FindBar';
+import { ImportMenu } from '@/components/ImportMenu';
+import { ImportReportDialog } from '@/components/ImportReportDialog';
+import { KeyboardShortcutsDialog } from '@/components/KeyboardShortcutsDialog';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { MarkdownPreview } from '@/components/MarkdownPreview';
+import { NoteEditor } from '@/components/NoteEditor';
+import { NotesSidebar } from '@/components/NotesSidebar';
+import { SearchPalette } from '@/components/SearchPalette';
+import { ShortcutKeys } from '@/components/ShortcutKeys';
+import { TabListMenu } from '@/components/TabListMenu';
+import { TagBrowser } from '@/components/TagBrowser';
+import { TagEditorDialog } from '@/components/TagEditorDialog';
+import { TasksPanel } from '@/components/TasksPanel';
+import { TrashPanel } from '@/components/TrashPanel';
+import { defaultNoteStore, type Folder, type Note, type NoteStore, type NoteViewState, type Revision, type StoreChange, type ViewMode } from '@/lib/storage';
 
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  lastModified: number;
+const DEFAULT_VIEW_STATE: NoteViewState = { mode: 'edit', splitRatio: 50 };
+
+// Room kept at the end of the last tab row for the new-tab button
+const NEW_TAB_BUTTON_SPACE = 48;
+
+// Shift+F10 or the menu key opens an element's context menu, anchored below it
+function openContextMenuFromKeyboard(e: React.KeyboardEvent<HTMLElement>) {
+  if (e.key !== 'ContextMenu' && !(e.shiftKey && e.key === 'F10')) return;
+  e.preventDefault();
+  const rect = e.currentTarget.getBoundingClientRect();
+  e.currentTarget.dispatchEvent(new MouseEvent('contextmenu', {
+    bubbles: true,
+    clientX: rect.left,
+    clientY: rect.bottom,
+  }));
 }
 
-const STORAGE_KEY = 'notepad-notes';
-const LAST_ACTIVE_KEY = 'notepad-last-active';
+interface NotepadProps {
+  store?: NoteStore;
+}
 
-export function Notepad() {
+export function Notepad({ store = defaultNoteStore }: NotepadProps) {
   const [notes, setNotes] = useState<Note[]>([]);
   const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const [isMarkdownPreview, setIsMarkdownPreview] = useState(false);
+  const [viewStates, setViewStates] = useState<Record<string, NoteViewState>>({});
   const [isRenamingTab, setIsRenamingTab] = useState<string | null>(null);
   const [tempTitle, setTempTitle] = useState('');
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isAllNotesOpen, setIsAllNotesOpen] = useState(false);
+  const [isBacklinksOpen, setIsBacklinksOpen] = useState(false);
+  const [isTasksOpen, setIsTasksOpen] = useState(false);
+  const [isAgendaOpen, setIsAgendaOpen] = useState(false);
+  const [dueTarget, setDueTarget] = useState<DueDateTarget>();
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [multiRowTabs, setMultiRowTabs] = useState(() => localStorage.getItem('notepad-tab-rows') === 'multiple');
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>(loadEditorSettings);
+  const [tagFilter, setTagFilter] = useState<TagFilter>({ tags: [], mode: 'or' });
+  const [taggingNoteId, setTaggingNoteId] = useState<string | null>(null);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
+  const [aiSettings, setAISettings] = useState<OpenAICompatibleSettings>(loadAISettings);
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Selection to apply once the target note's editor has rendered
+  const [pendingSelection, setPendingSelection] = useState<{ noteId: string; start: number; end: number } | null>(null);
   
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const editorRef = useRef<NoteEditorHandle>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const tabStripRef = useRef<HTMLDivElement>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
+  // Edits not yet written by the debounced save
+  const pendingSaveRef = useRef<{ noteId: string; content: string } | null>(null);
+  // Latest notes, for saves that run outside a render
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const viewSaveTimeoutRef = useRef<NodeJS.Timeout>();
   const { toast } = useToast();
 
   // Initialize theme
@@ -34,115 +138,718 @@ export function Notepad() {
     document.documentElement.classList.toggle('dark', dark);
   }, []);
 
-  // Load notes from localStorage
+  // Report storage failures without interrupting editing
+  const reportSaveError = useCallback(() => {
+    toast({
+      title: "Could not save",
+      description: "Your latest changes were not written to storage.",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const persist = useCallback((operation: Promise<void>) => {
+    operation.catch(reportSaveError);
+  }, [reportSaveError]);
+
+  const revisionHistory = useRevisionHistory(store, reportSaveError);
+  const undoHistory = useUndoHistory();
+  const trash = useTrash(store, persist, revisionHistory.forget);
+  const { load: loadTrash } = trash;
+  const folders = useFolders(store, persist);
+  const { load: loadFolders } = folders;
+  const openTabs = useOpenTabs(store, persist);
+  const { load: loadOpenTabs } = openTabs;
+
+  // Load notes from the store
   useEffect(() => {
-    const savedNotes = localStorage.getItem(STORAGE_KEY);
-    const lastActive = localStorage.getItem(LAST_ACTIVE_KEY);
-    
-    if (savedNotes) {
-      const parsedNotes = JSON.parse(savedNotes);
-      setNotes(parsedNotes);
-      
-      if (lastActive && parsedNotes.some((n: Note) => n.id === lastActive)) {
-        setActiveNoteId(lastActive);
-      } else if (parsedNotes.length > 0) {
-        setActiveNoteId(parsedNotes[0].id);
+    let cancelled = false;
+
+    const load = async () => {
+      await store.load();
+      const [storedNotes, order, pinned, lastActive, savedViewStates, retentionDays, savedFolders] = await Promise.all([
+        store.list(),
+        store.getMeta<string[]>('tab-order'),
+        store.getMeta<string[]>('pinned-tabs'),
+        store.getMeta<string>('last-active'),
+        store.getMeta<Record<string, NoteViewState>>('view-state'),
+        store.getMeta<number>('trash-retention-days'),
+        store.getMeta<Folder[]>('folders'),
+      ]);
+      if (cancelled) return;
+      loadFolders(savedFolders);
+      setViewStates(savedViewStates ?? {});
+      loadTrash(storedNotes.filter(note => note.trashedAt !== undefined), retentionDays);
+      const savedNotes = storedNotes.filter(note => note.trashedAt === undefined);
+
+      if (savedNotes.length > 0) {
+        // Every note used to be a tab, so without a saved order they all open
+        const ids = new Set(savedNotes.map(note => note.id));
+        const open = order ? order.filter(id => ids.has(id)) : savedNotes.map(note => note.id);
+        savedNotes.forEach(revisionHistory.remember);
+        setNotes(savedNotes);
+        loadOpenTabs(open, pinned);
+        setActiveNoteId(lastActive && open.includes(lastActive) ? lastActive : open[0] ?? null);
+        return;
       }
-    } else {
+
       // Create first note
       const firstNote: Note = {
-        id: '1',
+        id: storedNotes.length === 0 ? '1' : Date.now().toString(),
         title: 'Welcome',
         content: '# Welcome to Smart Notepad\n\nThis is your first note. You can:\n\n- **Add new tabs** with Ctrl+T\n- **Close tabs** with Ctrl+W  \n- **Save** with Ctrl+S\n- **Rename tabs** by double-clicking\n- **Toggle theme** with the button\n- **Preview Markdown** with the eye icon\n\nYour notes are automatically saved!',
         lastModified: Date.now()
       };
       setNotes([firstNote]);
+      loadOpenTabs([firstNote.id]);
       setActiveNoteId(firstNote.id);
+      await Promise.all([store.put(firstNote), store.setMeta('tab-order', [firstNote.id])]);
+    };
+
+    load().catch(() => {
+      toast({
+        title: "Could not load notes",
+        description: "Note storage is unavailable in this browser.",
+        variant: "destructive",
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store, toast, revisionHistory.remember, loadTrash, loadFolders, loadOpenTabs]);
+
+  // Remember the active note
+  const saveLastActive = useCallback((noteId: string) => {
+    persist(store.setMeta('last-active', noteId));
+  }, [store, persist]);
+
+  // Drop a scheduled autosave (the caller writes the note itself)
+  const cancelPendingSave = useCallback(() => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
     }
+    pendingSaveRef.current = null;
   }, []);
 
-  // Save to localStorage
-  const saveNotes = useCallback((notesToSave: Note[]) => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(notesToSave));
-  }, []);
+  // Write the pending edits now rather than when the timer fires
+  const flushPendingSave = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    cancelPendingSave();
+    const note = pending && notesRef.current.find(n => n.id === pending.noteId);
+    if (!note) return;
+    const saved = { ...note, content: pending.content, lastModified: Date.now() };
+    setNotes(prev => prev.map(n => n.id === saved.id ? { ...n, content: saved.content, lastModified: saved.lastModified } : n));
+    persist(store.put(saved));
+    revisionHistory.record(saved);
+  }, [cancelPendingSave, store, persist, revisionHistory]);
 
-  // Debounced autosave
+  // Debounced autosave of the active note
   const debouncedSave = useCallback((content: string) => {
+    if (!activeNoteId) return;
+    // Only one note is debounced at a time; another note's edits are written first
+    if (pendingSaveRef.current?.noteId !== activeNoteId) flushPendingSave();
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
     }
-    
-    saveTimeoutRef.current = setTimeout(() => {
-      if (activeNoteId) {
-        setNotes(prev => {
-          const updated = prev.map(note => 
-            note.id === activeNoteId 
-              ? { ...note, content, lastModified: Date.now() }
-              : note
-          );
-          saveNotes(updated);
-          return updated;
-        });
-      }
-    }, 500);
-  }, [activeNoteId, saveNotes]);
+    pendingSaveRef.current = { noteId: activeNoteId, content };
+    saveTimeoutRef.current = setTimeout(flushPendingSave, 500);
+  }, [activeNoteId, flushPendingSave]);
 
-  // Get active note
+  // Write pending edits before another note becomes active or the page goes away
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    window.addEventListener('beforeunload', flushPendingSave);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      window.removeEventListener('beforeunload', flushPendingSave);
+      flushPendingSave();
+    };
+  }, [activeNoteId, flushPendingSave]);
+
+  // Get active note and the notes open as tabs
   const activeNote = notes.find(note => note.id === activeNoteId);
+  const openNotes = openTabs.openNoteIds
+    .map(id => notes.find(note => note.id === id))
+    .filter((note): note is Note => note !== undefined);
+  // Exports list the open tabs first, then the rest of the library
+  const notesInTabOrder = [...openNotes, ...notes.filter(note => !openTabs.openNoteIds.includes(note.id))];
 
-  // Handle content change
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const content = e.target.value;
+  // Tags; the tag filter narrows the library and the tab bar (the active tab always shows)
+  const allTags = useMemo(() => tagCounts(notes), [notes]);
+  const noteTitles = useMemo(() => [...new Set(notes.map(note => note.title))].sort(), [notes]);
+  const completions = useMemo(
+    () => [hashtagCompletion(allTags.map(({ tag }) => tag)), wikiLinkCompletion(noteTitles)],
+    [allTags, noteTitles]
+  );
+  const wikiLinkExists = useCallback((target: string) => !!findNoteByTitle(notes, target), [notes]);
+  const backlinkCount = activeNote ? backlinks(notes, activeNote).length : 0;
+  const libraryNotes = notes.filter(note => matchesTagFilter(note, tagFilter));
+  const visibleTabs = openNotes.filter(note => note.id === activeNoteId || matchesTagFilter(note, tagFilter));
+  const viewState = (activeNoteId && viewStates[activeNoteId]) || DEFAULT_VIEW_STATE;
+
+  // Tab strip overflow; in multi-row mode the tabs wrap instead of scrolling
+  const tabStrip = useTabStrip(tabStripRef, activeNoteId);
+  const tabRows = multiRowTabs && tabStrip.width > 0
+    ? wrapTabRows(visibleTabs, note => openTabs.pinnedNoteIds.includes(note.id), tabStrip.width - NEW_TAB_BUTTON_SPACE)
+    : [visibleTabs];
+  const { onEditorScroll, onPreviewScroll } = useScrollSync(editorRef, previewRef);
+
+  // Update the active note's view mode / split ratio; ratio changes arrive
+  // continuously while dragging, so the write is debounced
+  const updateViewState = (changes: Partial<NoteViewState>) => {
+    if (!activeNoteId) return;
+    setViewStates(prev => {
+      const updated = { ...prev, [activeNoteId]: { ...viewState, ...changes } };
+      if (viewSaveTimeoutRef.current) {
+        clearTimeout(viewSaveTimeoutRef.current);
+      }
+      viewSaveTimeoutRef.current = setTimeout(() => {
+        persist(store.setMeta('view-state', updated));
+      }, 300);
+      return updated;
+    });
+  };
+
+  // Apply new content to the active note; every change except undo/redo
+  // itself becomes an undo step
+  const updateContent = (content: string, { undoable = true } = {}) => {
+    if (undoable && activeNote) undoHistory.record(activeNote.id, activeNote.content, content);
     // Update immediately in state for responsiveness
     setNotes(prev => prev.map(note => 
       note.id === activeNoteId ? { ...note, content } : note
     ));
-    // Debounce the localStorage save
+    // Debounce the store write
     debouncedSave(content);
   };
 
-  // Create new note
-  const createNewNote = () => {
+  // Handle content change
+  const handleContentChange = (content: string) => {
+    updateContent(content);
+  };
+
+  // Undo or redo in the active note, leaving the caret where the text changed
+  const stepUndoHistory = (direction: 'undo' | 'redo') => {
+    if (!activeNote) return;
+    const current = activeNote.content;
+    const content = direction === 'undo'
+      ? undoHistory.undo(activeNote.id, current)
+      : undoHistory.redo(activeNote.id, current);
+    if (content === undefined) return;
+    updateContent(content, { undoable: false });
+    if (viewState.mode !== 'preview') {
+      const { afterEnd } = changedRange(current, content);
+      setPendingSelection({ noteId: activeNote.id, start: afterEnd, end: afterEnd });
+    }
+  };
+
+  // Find and replace within the active note
+  const find = useFindReplace(editorRef, activeNote?.content ?? '');
+
+  const openFind = (withReplace: boolean) => {
+    if (viewState.mode === 'preview') updateViewState({ mode: 'edit' });
+    find.open(withReplace);
+  };
+
+  // Search
+  const search = useSearchIndex(notes);
+
+  // AI actions
+  const aiProvider = useMemo(() => createOpenAICompatibleProvider(aiSettings), [aiSettings]);
+  const ai = useAIAction(aiProvider);
+
+  // The editor selection, or the whole note when nothing is selected
+  const aiSelection = () => {
+    const selection = editorRef.current?.getSelection();
+    if (!selection || viewState.mode === 'preview' || selection.start === selection.end) return null;
+    return selection;
+  };
+
+  const runAIAction = (action: AIAction, language?: string) => {
+    if (!activeNote) return;
+    const { start, end } = aiSelection() ?? { start: 0, end: activeNote.content.length };
+    const original = activeNote.content.slice(start, end);
+    if (!original.trim() && action.id !== 'continue') {
+      toast({
+        title: "Nothing to work on",
+        description: "Write something or select some text first.",
+      });
+      return;
+    }
+    ai.start(action, { noteId: activeNote.id, start, end, original }, language);
+  };
+
+  const acceptAIResult = (run: AIRun) => {
+    if (!activeNote || activeNote.id !== run.noteId || activeNote.content.slice(run.start, run.end) !== run.original) {
+      toast({
+        title: "Note changed",
+        description: "The text was edited while the result was generated. Run the action again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const replacement = combineOutput(run.action, run.original, run.output);
+    // Keep the text as it was before the AI edit in the history
+    revisionHistory.record(activeNote, { force: true });
+    const editor = editorRef.current;
+    if (editor && viewState.mode !== 'preview') {
+      editor.replaceRange(run.start, run.end, replacement);
+      editor.select(run.start, run.start + replacement.length);
+      return;
+    }
+    updateContent(activeNote.content.slice(0, run.start) + replacement + activeNote.content.slice(run.end));
+  };
+
+  const saveAIProviderSettings = (settings: OpenAICompatibleSettings) => {
+    saveAISettings(settings);
+    setAISettings(settings);
+    setIsAISettingsOpen(false);
+  };
+
+  // Create new note, optionally inside a notebook
+  const createNewNote = (folderId: string | null = null, title = 'Untitled') => {
     const newNote: Note = {
       id: Date.now().toString(),
-      title: 'Untitled',
+      title,
       content: '',
-      lastModified: Date.now()
+      lastModified: Date.now(),
+      ...(folderId ? { folderId } : {}),
     };
-    const updatedNotes = [...notes, newNote];
-    setNotes(updatedNotes);
-    setActiveNoteId(newNote.id);
-    saveNotes(updatedNotes);
-    localStorage.setItem(LAST_ACTIVE_KEY, newNote.id);
+    setNotes(prev => [...prev, newNote]);
+    persist(store.put(newNote));
+    revisionHistory.remember(newNote);
+    switchToNote(newNote.id);
+  };
+
+  // File a note in a notebook (null for the top level)
+  const moveNoteToFolder = (noteId: string, folderId: string | null) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note || (note.folderId ?? null) === folderId) return;
+    const moved = { ...note, folderId: folderId ?? undefined };
+    setNotes(prev => prev.map(n => n.id === noteId ? moved : n));
+    persist(store.put(moved));
+  };
+
+  // Delete a notebook; its notes and subfolders move up one level
+  const deleteFolder = (folderId: string) => {
+    const deleted = folders.deleteFolder(folderId);
+    if (!deleted) return;
+    const contained = notes.filter(note => note.folderId === folderId);
+    contained.forEach(note => moveNoteToFolder(note.id, deleted.parentId));
+    const destination = deleted.parentId ? folderPath(folders.folders, deleted.parentId).join(' / ') : 'the top level';
+    toast({
+      title: "Folder deleted",
+      description: contained.length > 0
+        ? `${contained.length} ${contained.length === 1 ? 'note was' : 'notes were'} moved to ${destination}.`
+        : `"${deleted.name}" was removed.`,
+    });
+  };
+
+  // Replace a note's hand-set tags
+  const setNoteTags = (noteId: string, tags: string[]) => {
+    setTaggingNoteId(null);
+    const note = notes.find(n => n.id === noteId);
+    if (!note) return;
+    const updated = { ...note, tags, lastModified: Date.now() };
+    setNotes(prev => prev.map(n => n.id === noteId ? updated : n));
+    persist(store.put(updated));
+  };
+
+  // Save content rewritten outside the editor (tag renames, link updates)
+  const saveRewrittenNotes = (rewritten: Note[]) => {
+    if (rewritten.some(note => note.id === pendingSaveRef.current?.noteId)) cancelPendingSave();
+    const byId = new Map(rewritten.map(note => [note.id, note]));
+    notes.forEach(note => {
+      const updated = byId.get(note.id);
+      if (updated) undoHistory.record(note.id, note.content, updated.content);
+    });
+    setNotes(prev => prev.map(note => byId.get(note.id) ?? note));
+    rewritten.forEach(note => {
+      persist(store.put(note));
+      revisionHistory.record(note);
+    });
   };
 
-  // Close note
+  // Rename a tag in every note, merging it into `to` if that tag exists
+  const renameTagEverywhere = (from: string, to: string) => {
+    const target = normalizeTag(to);
+    if (!target || target === from) return;
+    const renamed = notes
+      .map(note => renameTag(note, from, target))
+      .filter((note): note is Note => note !== undefined)
+      .map(note => ({ ...note, lastModified: Date.now() }));
+    saveRewrittenNotes(renamed);
+    setTagFilter(prev => ({
+      ...prev,
+      tags: [...new Set(prev.tags.map(tag => (tag === from ? target : tag)))],
+    }));
+    toast({
+      title: "Tag renamed",
+      description: `#${from} is now #${target} in ${renamed.length} ${renamed.length === 1 ? 'note' : 'notes'}.`,
+    });
+  };
+
+  // Move focus off a tab that is going away
+  const activateNextTab = (closedId: string, remaining: string[]) => {
+    if (activeNoteId !== closedId) return;
+    const newActive = remaining[0] ?? null;
+    setActiveNoteId(newActive);
+    if (newActive) {
+      saveLastActive(newActive);
+    }
+  };
+
+  // Close a tab; the note stays in the library. Pinned tabs stay open.
   const closeNote = (noteId: string) => {
-    if (notes.length === 1) {
+    if (openTabs.pinnedNoteIds.includes(noteId)) return;
+    activateNextTab(noteId, openTabs.close(noteId));
+  };
+
+  // Close several tabs; if the active one goes, `fallbackId` takes its place
+  const closeNotes = (noteIds: string[], fallbackId: string) => {
+    const closing = noteIds.filter(id => !openTabs.pinnedNoteIds.includes(id));
+    closing.forEach(openTabs.close);
+    if (activeNoteId && closing.includes(activeNoteId)) switchToNote(fallbackId);
+  };
+
+  const closeOtherTabs = (noteId: string) => {
+    closeNotes(openTabs.openNoteIds.filter(id => id !== noteId), noteId);
+  };
+
+  const closeTabsToTheRight = (noteId: string) => {
+    closeNotes(openTabs.openNoteIds.slice(openTabs.openNoteIds.indexOf(noteId) + 1), noteId);
+  };
+
+  // Copy a note into a new tab right after the original
+  const duplicateNote = (noteId: string) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) return;
+    const copy: Note = {
+      id: Date.now().toString(),
+      title: `${note.title} (copy)`,
+      content: note.content,
+      lastModified: Date.now(),
+      ...(note.folderId ? { folderId: note.folderId } : {}),
+      ...(note.tags ? { tags: note.tags } : {}),
+    };
+    setNotes(prev => [...prev, copy]);
+    persist(store.put(copy));
+    revisionHistory.remember(copy);
+    openTabs.open(copy.id, openTabs.openNoteIds.indexOf(noteId) + 1);
+    switchToNote(copy.id);
+  };
+
+  const copyNoteContent = async (note: Note) => {
+    try {
+      await navigator.clipboard.writeText(note.content);
+      toast({
+        title: "Copied",
+        description: `The content of "${note.title}" is on the clipboard.`,
+      });
+    } catch {
       toast({
-        title: "Cannot close last note",
-        description: "At least one note must remain open.",
+        title: "Copy failed",
+        description: "The browser did not allow access to the clipboard.",
+        variant: "destructive",
       });
+    }
+  };
+
+  // Move a note to the trash, closing its tab
+  const trashNote = (noteId: string) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) return;
+    // The note in state already has the pending edits; a late autosave would undo the trashing
+    if (pendingSaveRef.current?.noteId === noteId) cancelPendingSave();
+    const index = openTabs.openNoteIds.indexOf(noteId);
+    setNotes(prev => prev.filter(n => n.id !== noteId));
+    trash.moveToTrash(note, index === -1 ? openTabs.openNoteIds.length : index);
+    activateNextTab(noteId, openTabs.remove(noteId));
+  };
+
+  // Drop a note removed by another window, moving focus off it if needed
+  const removeNote = (noteId: string) => {
+    setNotes(prev => prev.filter(note => note.id !== noteId));
+    activateNextTab(noteId, openTabs.remove(noteId));
+  };
+
+  // Take another window's version of a note
+  const applyRemoteNote = (remote: Note) => {
+    trash.applyRemote({ type: 'put', note: remote, concurrent: false });
+    if (remote.trashedAt !== undefined) {
+      removeNote(remote.id);
       return;
     }
+    revisionHistory.remember(remote);
+    const local = notes.find(note => note.id === remote.id);
+    if (local) undoHistory.record(remote.id, local.content, remote.content);
+    setNotes(prev => prev.some(note => note.id === remote.id)
+      ? prev.map(note => note.id === remote.id ? remote : note)
+      : [...prev, remote]
+    );
+  };
 
-    const updatedNotes = notes.filter(note => note.id !== noteId);
-    setNotes(updatedNotes);
-    saveNotes(updatedNotes);
+  // Apply a write made in another window, or queue a conflict when it would
+  // overwrite edits made here
+  const applyRemoteChange = (change: StoreChange) => {
+    if (change.type === 'meta') {
+      trash.applyRemote(change);
+      folders.applyRemote(change);
+      return;
+    }
+    if (change.type === 'delete') {
+      trash.applyRemote(change);
+      removeNote(change.id);
+      return;
+    }
 
-    if (activeNoteId === noteId) {
-      const newActive = updatedNotes[0]?.id || null;
-      setActiveNoteId(newActive);
-      if (newActive) {
-        localStorage.setItem(LAST_ACTIVE_KEY, newActive);
-      }
+    const remote = change.note;
+    const local = notes.find(note => note.id === remote.id);
+    const hasUnsavedEdits = pendingSaveRef.current?.noteId === remote.id;
+    const diverged = local !== undefined
+      && (local.content !== remote.content || remote.trashedAt !== undefined);
+    if (diverged && (hasUnsavedEdits || change.concurrent)) {
+      if (hasUnsavedEdits) cancelPendingSave();
+      setConflicts(prev => [...prev.filter(c => c.local.id !== remote.id), { local, remote }]);
+      return;
     }
+    applyRemoteNote(remote);
+  };
+
+  // Handlers change every render; the subscription always calls the latest one
+  const remoteChangeHandlerRef = useRef(applyRemoteChange);
+  remoteChangeHandlerRef.current = applyRemoteChange;
+
+  useEffect(() => {
+    return store.subscribe?.(change => remoteChangeHandlerRef.current(change));
+  }, [store]);
+
+  // Conflict resolution
+  const resolveConflict = (conflict: NoteConflict) => {
+    setConflicts(prev => prev.filter(c => c !== conflict));
+    // Edits made while the dialog was open belong to "mine"
+    return notes.find(note => note.id === conflict.local.id) ?? conflict.local;
+  };
+
+  const keepMine = (conflict: NoteConflict) => {
+    const mine = { ...resolveConflict(conflict), lastModified: Date.now() };
+    trash.applyRemote({ type: 'put', note: mine, concurrent: false });
+    setNotes(prev => prev.some(note => note.id === mine.id)
+      ? prev.map(note => note.id === mine.id ? mine : note)
+      : [...prev, mine]
+    );
+    persist(store.put(mine));
+    revisionHistory.record(mine, { force: true });
+  };
+
+  const takeTheirs = (conflict: NoteConflict) => {
+    const mine = resolveConflict(conflict);
+    // Keep the discarded text reachable from the history panel
+    revisionHistory.record(mine, { force: true });
+    applyRemoteNote(conflict.remote);
+  };
+
+  const keepBoth = (conflict: NoteConflict) => {
+    const mine = resolveConflict(conflict);
+    applyRemoteNote(conflict.remote);
+    // The copy keeps everything of mine (folder, tags, ...) under a new id
+    const copy: Note = {
+      ...mine,
+      id: Date.now().toString(),
+      title: `${mine.title} (conflicted copy)`,
+      lastModified: Date.now(),
+    };
+    setNotes(prev => [...prev, copy]);
+    openTabs.open(copy.id);
+    persist(store.put(copy));
+    revisionHistory.remember(copy);
+  };
+
+  // Restore a note from the trash, reopening it at its old tab position
+  const restoreNote = (noteId: string) => {
+    const index = trash.trash.find(note => note.id === noteId)?.trashedFromIndex;
+    const restored = trash.takeFromTrash(noteId);
+    if (!restored) return;
+
+    setNotes(prev => [...prev, restored]);
+    revisionHistory.remember(restored);
+    openTabs.open(restored.id, index);
+    switchToNote(restored.id);
+  };
+
+  // Reopen the most recently closed tab where it was
+  const reopenClosedTab = () => {
+    const closed = openTabs.takeRecentlyClosed(noteId => notes.some(note => note.id === noteId));
+    if (!closed) return;
+    openTabs.open(closed.noteId, closed.index);
+    switchToNote(closed.noteId);
   };
 
-  // Switch to note
+  // Switch to note, opening a tab for it if needed
   const switchToNote = (noteId: string) => {
+    openTabs.open(noteId);
     setActiveNoteId(noteId);
-    localStorage.setItem(LAST_ACTIVE_KEY, noteId);
+    saveLastActive(noteId);
+  };
+
+  // Follow a [[wiki link]]; a link to a missing note creates it next to the current one
+  const openWikiLink = (target: string) => {
+    const linked = findNoteByTitle(notes, target);
+    if (linked) switchToNote(linked.id);
+    else createNewNote(activeNote?.folderId ?? null, target.trim());
+  };
+
+  // Turn plain mentions of the active note's title in another note into links
+  const linkMentionsIn = (noteId: string) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note || !activeNote) return;
+    const content = linkMentions(note.content, activeNote.title);
+    if (content === note.content) return;
+    saveRewrittenNotes([{ ...note, content, lastModified: Date.now() }]);
+    toast({
+      title: "Mentions linked",
+      description: `"${note.title}" now links to "${activeNote.title}".`,
+    });
+  };
+
+  // Open a note with a range selected in the editor, leaving preview mode if needed
+  const revealInEditor = (noteId: string, start: number, end: number) => {
+    switchToNote(noteId);
+    if (viewStates[noteId]?.mode === 'preview') {
+      setViewStates(prev => ({ ...prev, [noteId]: { ...prev[noteId], mode: 'edit' } }));
+    }
+    setPendingSelection({ noteId, start, end });
+  };
+
+  const openSearchResult = (result: SearchResult) => {
+    if (result.match) revealInEditor(result.note.id, result.match.start, result.match.end);
+    else switchToNote(result.note.id);
+  };
+
+  const openTask = (noteId: string, task: Task | DueItem) => revealInEditor(noteId, task.start, task.end);
+
+  // Apply an edit made outside the editor: the active note saves as if typed, others at once
+  const applyNoteEdit = (note: Note, content: string) => {
+    if (content === note.content) return;
+    if (note.id === activeNoteId) updateContent(content);
+    else saveRewrittenNotes([{ ...note, content, lastModified: Date.now() }]);
+  };
+
+  // Check or uncheck the task on `line`, from the preview or a panel
+  const toggleNoteTask = (noteId: string, line: number) => {
+    const note = notes.find(n => n.id === noteId);
+    const content = note && toggleTask(note.content, line);
+    if (content !== undefined) applyNoteEdit(note, content);
+  };
+
+  // Date the task under the editor's caret, or the note when the caret is elsewhere
+  const openDueDateDialog = () => {
+    if (!activeNote) return;
+    const caret = editorRef.current?.getSelection().start;
+    const line = caret === undefined ? undefined : activeNote.content.slice(0, caret).split('\n').length - 1;
+    const onTask = noteTasks(activeNote).some(task => task.line === line);
+    setDueTarget({ note: activeNote, line: onTask ? line : undefined });
+  };
+
+  const saveDueDate = (target: DueDateTarget, due: DueDate | null) => {
+    // The note may have been edited while the dialog was open
+    const note = notes.find(n => n.id === target.note.id);
+    if (note) applyNoteEdit(note, setDueDate(note.content, target.line, due));
+    setDueTarget(undefined);
+  };
+
+  const reminders = useReminders(notes, {
+    onRemind: ({ note, item }) => toast({
+      title: item.task ? 'Task due' : 'Note due',
+      description: item.text ? `${item.text} · ${note.title}` : note.title,
+      action: <ToastAction altText="Open" onClick={() => openTask(note.id, item)}>Open</ToastAction>,
+    }),
+    onOpen: ({ note, item }) => openTask(note.id, item),
+  });
+  const overdueCount = notes.reduce((count, note) => count + dueSummary(note, reminders.now).overdue, 0);
+
+  // Check the tasks under the editor's selection, or turn its lines into tasks
+  const toggleTasksInEditor = () => {
+    const editor = editorRef.current;
+    if (!activeNote || !editor) return;
+    const { start, end } = editor.getSelection();
+    const edit = toggleTaskLines(activeNote.content, start, end);
+    const replaced = activeNote.content.slice(edit.from, edit.to);
+    if (edit.text === replaced) return;
+    editor.replaceRange(edit.from, edit.to, edit.text);
+    // A caret stays with its text; a selection grows to cover the edited lines
+    if (start === end) {
+      const caret = Math.max(edit.from, start + edit.text.length - replaced.length);
+      editor.select(caret, caret);
+    } else {
+      editor.select(edit.from, edit.from + edit.text.length);
+    }
+  };
+
+  useEffect(() => {
+    if (!pendingSelection || pendingSelection.noteId !== activeNoteId || !editorRef.current) return;
+    editorRef.current.select(pendingSelection.start, pendingSelection.end);
+    setPendingSelection(null);
+  }, [pendingSelection, activeNoteId, viewState.mode]);
+
+  // Import files as new tabs and show what happened
+  const importFiles = async (sources: ImportSource[]) => {
+    try {
+      const report = await importSources(sources, [...notes, ...trash.trash], folders.folders);
+      if (report.folders.length > 0) folders.addFolders(report.folders);
+      const added = report.imported.map(entry => entry.note);
+      if (added.length > 0) {
+        // Everything goes into the library; only the first note opens as a tab
+        setNotes(prev => [...prev, ...added]);
+        added.forEach(note => {
+          persist(store.put(note));
+          revisionHistory.remember(note);
+        });
+        switchToNote(added[0].id);
+      }
+      setImportReport(report);
+    } catch {
+      toast({
+        title: "Import failed",
+        description: "The selected files could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Files dropped onto the tab bar or editor are imported
+  const fileDropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+      setIsDraggingFiles(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      sourcesFromDataTransfer(e.dataTransfer).then(importFiles);
+    },
+  };
+
+  // Restore a revision; the current text is snapshotted first so nothing is lost
+  const restoreRevision = (revision: Revision) => {
+    if (!activeNote) return;
+    cancelPendingSave();
+    const restored = { ...activeNote, content: revision.content, lastModified: Date.now() };
+    revisionHistory.record(activeNote, { force: true });
+    undoHistory.record(activeNote.id, activeNote.content, restored.content);
+    setNotes(prev => prev.map(note => note.id === restored.id ? restored : note));
+    persist(store.put(restored));
+    revisionHistory.record(restored, { force: true });
+    setIsHistoryOpen(false);
+    toast({
+      title: "Revision restored",
+      description: `"${activeNote.title}" was restored to ${new Date(revision.lastModified).toLocaleString()}.`,
+    });
   };
 
   // Toggle theme
@@ -159,42 +866,70 @@ export function Notepad() {
     setTempTitle(currentTitle);
   };
 
-  // Save tab rename
+  // Save tab rename; [[links]] to the old title follow the note
   const saveRename = () => {
-    if (isRenamingTab && tempTitle.trim()) {
-      setNotes(prev => {
-        const updated = prev.map(note => 
-          note.id === isRenamingTab 
-            ? { ...note, title: tempTitle.trim(), lastModified: Date.now() }
-            : note
-        );
-        saveNotes(updated);
-        return updated;
-      });
+    const note = notes.find(n => n.id === isRenamingTab);
+    const title = tempTitle.trim();
+    if (note && title && title !== note.title) {
+      setNotes(prev => prev.map(n => n.id === note.id ? { ...n, title, lastModified: Date.now() } : n));
+      persist(store.put({ ...note, title, lastModified: Date.now() }));
+
+      // Leave links alone while another note still goes by the old title
+      const titleChanged = titleKey(title) !== titleKey(note.title);
+      const ambiguous = notes.some(n => n.id !== note.id && titleKey(n.title) === titleKey(note.title));
+      if (titleChanged && !ambiguous) {
+        const relinked = notes
+          .map(n => ({ ...n, title: n.id === note.id ? title : n.title, content: renameWikiLinks(n.content, note.title, title) }))
+          .filter((n, i) => n.content !== notes[i].content)
+          .map(n => ({ ...n, lastModified: Date.now() }));
+        if (relinked.length > 0) {
+          saveRewrittenNotes(relinked);
+          toast({
+            title: "Links updated",
+            description: `${relinked.length} ${relinked.length === 1 ? 'note now links' : 'notes now link'} to "${title}".`,
+          });
+        }
+      }
     }
     setIsRenamingTab(null);
     setTempTitle('');
   };
 
-  // Handle drag end
-  const handleDragEnd = (result: any) => {
-    if (!result.destination) return;
+  const changeMultiRowTabs = (multiRow: boolean) => {
+    setMultiRowTabs(multiRow);
+    localStorage.setItem('notepad-tab-rows', multiRow ? 'multiple' : 'single');
+  };
 
-    const items = Array.from(notes);
-    const [reorderedItem] = items.splice(result.source.index, 1);
-    items.splice(result.destination.index, 0, reorderedItem);
+  const changeEditorSettings = (changes: Partial<EditorSettings>) => {
+    const updated = { ...editorSettings, ...changes };
+    setEditorSettings(updated);
+    saveEditorSettings(updated);
+  };
+
+  // Handle drag end; each tab row is a separate drop target
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.destination) return;
 
-    setNotes(items);
-    saveNotes(items);
+    // Indices are positions among the visible tabs, which the tag filter may narrow
+    const rowStart = (droppableId: string) => tabRows
+      .slice(0, Number(droppableId.replace('tabs-', '')))
+      .reduce((count, row) => count + row.length, 0);
+    const from = rowStart(result.source.droppableId) + result.source.index;
+    let position = rowStart(result.destination.droppableId) + result.destination.index;
+    // Dropped in another row, the index still counts the tab in its old place
+    if (result.source.droppableId !== result.destination.droppableId && from < position) position -= 1;
+    const to = visibleTabs[position]?.id;
+    openTabs.move(openTabs.openNoteIds.indexOf(result.draggableId), to ? openTabs.openNoteIds.indexOf(to) : openTabs.openNoteIds.length - 1);
   };
 
   // Manual save
   const manualSave = () => {
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
+    cancelPendingSave();
     if (activeNote) {
-      saveNotes(notes);
+      const saved = { ...activeNote, lastModified: Date.now() };
+      setNotes(prev => prev.map(note => note.id === saved.id ? saved : note));
+      persist(store.put(saved));
+      revisionHistory.record(saved);
       toast({
         title: "Saved",
         description: `"${activeNote.title}" has been saved.`,
@@ -202,290 +937,790 @@ export function Notepad() {
     }
   };
 
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.ctrlKey || e.metaKey) {
-        switch (e.key) {
-          case 't':
-            e.preventDefault();
-            createNewNote();
-            break;
-          case 'w':
-            e.preventDefault();
-            if (activeNoteId) {
-              closeNote(activeNoteId);
-            }
-            break;
-          case 's':
-            e.preventDefault();
-            manualSave();
-            break;
-        }
-      }
-    };
+  // Move to the next or previous visible tab, wrapping around
+  const cycleTab = (step: number) => {
+    if (visibleTabs.length === 0) return;
+    const index = visibleTabs.findIndex(note => note.id === activeNoteId);
+    switchToNote(visibleTabs[(index + step + visibleTabs.length) % visibleTabs.length].id);
+  };
+
+  const goToTab = (index: number) => {
+    const note = visibleTabs[index];
+    if (note) switchToNote(note.id);
+  };
+
+  const activeNoteDue = activeNote && noteDueItem(activeNote);
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeNoteId, notes]);
+  // Keyboard shortcuts; commands and default keys are listed in lib/commands.ts
+  const keymap = useKeymap({
+    'note.new': () => createNewNote(),
+    'note.save': manualSave,
+    'edit.undo': () => stepUndoHistory('undo'),
+    'edit.redo': () => stepUndoHistory('redo'),
+    'edit.toggleTask': toggleTasksInEditor,
+    'edit.setDueDate': openDueDateDialog,
+    'tab.close': () => {
+      if (activeNoteId) closeNote(activeNoteId);
+    },
+    'tab.reopen': reopenClosedTab,
+    'tab.next': () => cycleTab(1),
+    'tab.previous': () => cycleTab(-1),
+    'tab.goto1': () => goToTab(0),
+    'tab.goto2': () => goToTab(1),
+    'tab.goto3': () => goToTab(2),
+    'tab.goto4': () => goToTab(3),
+    'tab.goto5': () => goToTab(4),
+    'tab.goto6': () => goToTab(5),
+    'tab.goto7': () => goToTab(6),
+    'tab.goto8': () => goToTab(7),
+    'tab.goto9': () => goToTab(visibleTabs.length - 1),
+    'view.togglePreview': () => {
+      if (activeNote) updateViewState({ mode: viewState.mode === 'preview' ? 'edit' : 'preview' });
+    },
+    'view.toggleSidebar': () => setIsSidebarOpen(open => !open),
+    'view.toggleTheme': toggleTheme,
+    'view.toggleLineNumbers': () => changeEditorSettings({ lineNumbers: !editorSettings.lineNumbers }),
+    'view.toggleSoftWrap': () => changeEditorSettings({ softWrap: !editorSettings.softWrap }),
+    'view.tasks': () => setIsTasksOpen(true),
+    'view.agenda': () => setIsAgendaOpen(true),
+    'search.notes': () => setIsSearchOpen(true),
+    'search.find': () => openFind(false),
+    'search.replace': () => openFind(true),
+    'help.shortcuts': () => setIsShortcutsOpen(true),
+  });
 
-  // Render markdown preview
-  const renderMarkdown = (content: string) => {
-    return content
-      .replace(/^# (.*$)/gm, '<h1 class="text-2xl font-bold mb-4">$1</h1>')
-      .replace(/^## (.*$)/gm, '<h2 class="text-xl font-semibold mb-3">$1</h2>')
-      .replace(/^### (.*$)/gm, '<h3 class="text-lg font-medium mb-2">$1</h3>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/\n/g, '<br>');
+  // " (Ctrl+K)" for tooltips, following the user's keymap
+  const shortcutHint = (commandId: CommandId) => {
+    const [shortcut] = keymap.keymap[commandId];
+    return shortcut ? ` (${shortcut})` : '';
   };
 
-  return (
-    <div className="h-screen bg-background flex flex-col font-sans">
-      {/* Header */}
-      <header className="bg-gradient-to-r from-card to-background/90 border-b border-border/60 px-6 py-4 shadow-notepad backdrop-blur-sm">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="w-2 h-2 bg-accent rounded-full animate-pulse" />
-            <h1 className="text-lg font-semibold text-foreground bg-gradient-to-r from-foreground to-foreground/80 bg-clip-text">
-              Smart Notepad
-            </h1>
-          </div>
-          
-          <div className="flex items-center gap-1">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setIsMarkdownPreview(!isMarkdownPreview)}
-              className={`gap-2 rounded-lg transition-all duration-200 hover:scale-105 ${
-                isMarkdownPreview 
-                  ? 'bg-accent/20 text-accent hover:bg-accent/30' 
-                  : 'hover:bg-secondary/80'
-              }`}
-            >
-              {isMarkdownPreview ? <Edit3 className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-              <span className="hidden sm:inline">
-                {isMarkdownPreview ? 'Edit' : 'Preview'}
-              </span>
-            </Button>
-            
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={manualSave}
-              className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
-            >
-              <Save className="h-4 w-4" />
-              <span className="hidden sm:inline">Save</span>
-            </Button>
-            
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {}}
-              className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
-            >
-              <span className="hidden sm:inline">AI Actions</span>
-            </Button>
-            
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={createNewNote}
-              className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
-            >
-              <Plus className="h-4 w-4" />
-              <span className="hidden sm:inline">New</span>
-            </Button>
-            
-            <div className="w-px h-6 bg-border/60 mx-1" />
-            
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={toggleTheme}
-              className="rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
-              title={isDarkMode ? 'Switch to light mode' : 'Switch to dark mode'}
-            >
-              {isDarkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
-            </Button>
-          </div>
-        </div>
-      </header>
+  // Editor, shared by the edit and split layouts
+  const editor = activeNote && (
+    <NoteEditor
+      key={activeNote.id}
+      ref={editorRef}
+      value={activeNote.content}
+      onChange={handleContentChange}
+      onScroll={viewState.mode === 'split' ? onEditorScroll : undefined}
+      highlights={find.isOpen ? find.matches : undefined}
+      currentHighlight={find.current}
+      completions={completions}
+      onUndo={() => stepUndoHistory('undo')}
+      onRedo={() => stepUndoHistory('redo')}
+      lineNumbers={editorSettings.lineNumbers}
+      softWrap={editorSettings.softWrap}
+    />
+  );
 
-      {/* Tab Bar */}
-      <div className="bg-gradient-to-b from-background to-notepad-tab-bg border-b border-border/60 px-2 py-1">
-        <DragDropContext onDragEnd={handleDragEnd}>
-          <Droppable droppableId="tabs" direction="horizontal">
-            {(provided, snapshot) => (
+  // One tab of the tab strip; `index` is its position within its row
+  const renderTab = (note: Note, index: number) => {
+    const isPinned = openTabs.pinnedNoteIds.includes(note.id);
+    const tabIndex = openTabs.openNoteIds.indexOf(note.id);
+    const progress = taskProgress(noteTasks(note));
+    const progressLabel = progress.total > 0 ? `${progress.done} of ${progress.total} tasks done` : '';
+    const due = dueSummary(note, reminders.now);
+    const dueLabel = due.overdue > 0 ? `${due.overdue} overdue` : due.upcoming > 0 ? `${due.upcoming} due soon` : '';
+    return (
+      <Draggable key={note.id} draggableId={note.id} index={index}>
+        {(provided, snapshot) => (
+          <ContextMenu>
+            <ContextMenuTrigger asChild>
               <div
-                {...provided.droppableProps}
                 ref={provided.innerRef}
-                className={`flex gap-1 min-w-max transition-all duration-200 ${
-                  snapshot.isDraggingOver ? 'bg-accent/10 rounded-lg p-1' : ''
+                {...provided.draggableProps}
+                data-tab-id={note.id}
+                className={`group relative flex items-center min-w-0 max-w-48 transition-all duration-300 ease-out ${
+                  snapshot.isDragging ? 'rotate-2 scale-105 z-50' : ''
+                } ${
+                  activeNoteId === note.id
+                    ? 'bg-card shadow-notepad-elevated border border-border/50 rounded-t-lg'
+                    : 'bg-notepad-tab-bg hover:bg-notepad-tab-hover hover:shadow-notepad rounded-lg mt-1'
                 }`}
+                style={{
+                  ...provided.draggableProps.style,
+                  width: multiRowTabs ? (isPinned ? PINNED_TAB_WIDTH : TAB_WIDTH) : undefined,
+                  transform: snapshot.isDragging 
+                    ? `${provided.draggableProps.style?.transform} rotate(2deg)` 
+                    : provided.draggableProps.style?.transform,
+                }}
               >
-                {notes.map((note, index) => (
-                  <Draggable key={note.id} draggableId={note.id} index={index}>
+                {/* Drag Handle */}
+                <div
+                  {...provided.dragHandleProps}
+                  className={`flex items-center py-3 opacity-0 group-hover:opacity-70 hover:opacity-100 transition-opacity cursor-grab active:cursor-grabbing ${
+                    isPinned ? 'w-1.5 pl-1.5 overflow-hidden' : 'pl-2 pr-1'
+                  }`}
+                >
+                  <GripVertical className="h-3 w-3 text-muted-foreground" />
+                </div>
+
+                {/* Tab Content */}
+                <div className="flex-1 min-w-0 flex items-center">
+                  {isRenamingTab === note.id ? (
+                    <input
+                      type="text"
+                      value={tempTitle}
+                      onChange={(e) => setTempTitle(e.target.value)}
+                      onBlur={saveRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveRename();
+                        if (e.key === 'Escape') {
+                          setIsRenamingTab(null);
+                          setTempTitle('');
+                        }
+                      }}
+                      className="bg-transparent border-none outline-none px-2 py-3 text-sm min-w-0 w-full focus:bg-accent/20 rounded"
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      onClick={() => switchToNote(note.id)}
+                      onDoubleClick={() => startRename(note.id, note.title)}
+                      onKeyDown={openContextMenuFromKeyboard}
+                      className={`flex-1 py-3 text-left text-sm truncate transition-all duration-200 rounded ${
+                        isPinned ? 'flex items-center gap-1 px-2' : 'flex items-center gap-1.5 min-w-0 px-2'
+                      } ${
+                        activeNoteId === note.id
+                          ? 'text-foreground font-medium'
+                          : 'text-muted-foreground hover:text-foreground'
+                      }`}
+                      title={[isPinned ? `${note.title} (pinned)` : note.title, progressLabel, dueLabel].filter(Boolean).join(' · ')}
+                      aria-label={[note.title, isPinned && 'pinned', progressLabel, dueLabel].filter(Boolean).join(', ')}
+                    >
+                      {isPinned ? (
+                        <>
+                          <Pin className="h-3 w-3 text-accent" />
+                          <span aria-hidden>{note.title.trim().charAt(0).toUpperCase() || '?'}</span>
+                          {due.overdue > 0 && <span aria-hidden className="h-1.5 w-1.5 rounded-full bg-destructive" />}
+                        </>
+                      ) : (
+                        <>
+                          <span className="truncate">{note.title}</span>
+                          {progress.total > 0 && (
+                            <span
+                              aria-hidden
+                              className={`shrink-0 rounded px-1 text-[10px] tabular-nums ${
+                                progress.done === progress.total ? 'bg-accent/20 text-accent' : 'bg-muted text-muted-foreground'
+                              }`}
+                            >
+                              {progress.done}/{progress.total}
+                            </span>
+                          )}
+                          {dueLabel && (
+                            <span
+                              aria-hidden
+                              className={`flex shrink-0 items-center gap-0.5 rounded px-1 text-[10px] tabular-nums ${
+                                due.overdue > 0 ? 'bg-destructive/15 text-destructive' : 'bg-accent/20 text-accent'
+                              }`}
+                            >
+                              <AlarmClock className="h-2.5 w-2.5" />
+                              {due.overdue || due.upcoming}
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </button>
+                  )}
+                </div>
+
+                {/* Close Button */}
+                {!isPinned && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      closeNote(note.id);
+                    }}
+                    className={`mr-2 p-1.5 rounded-full transition-all duration-200 ${
+                      activeNoteId === note.id
+                        ? 'opacity-60 hover:opacity-100 hover:bg-destructive/20 hover:text-destructive'
+                        : 'opacity-0 group-hover:opacity-60 hover:opacity-100 hover:bg-destructive/20 hover:text-destructive'
+                    }`}
+                    aria-label={`Close ${note.title}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+
+                {/* Active Tab Indicator */}
+                {activeNoteId === note.id && (
+                  <div className="absolute bottom-0 left-2 right-2 h-0.5 bg-accent rounded-full animate-scale-in" />
+                )}
+              </div>
+            </ContextMenuTrigger>
+            {/* Keep focus in the rename field when Rename was chosen */}
+            <ContextMenuContent
+              className="w-56"
+              onCloseAutoFocus={(e) => {
+                if (isRenamingTab === note.id) e.preventDefault();
+              }}
+            >
+              <ContextMenuItem onSelect={() => startRename(note.id, note.title)}>Rename</ContextMenuItem>
+              <ContextMenuItem onSelect={() => duplicateNote(note.id)}>Duplicate</ContextMenuItem>
+              <ContextMenuItem onSelect={() => (isPinned ? openTabs.unpin(note.id) : openTabs.pin(note.id))}>
+                {isPinned ? 'Unpin' : 'Pin'}
+              </ContextMenuItem>
+              <ContextMenuItem onSelect={() => setTaggingNoteId(note.id)}>Tags…</ContextMenuItem>
+              <ContextMenuItem onSelect={() => setDueTarget({ note })}>Due date…</ContextMenuItem>
+              <ContextMenuSeparator />
+              <ContextMenuItem disabled={isPinned} onSelect={() => closeNote(note.id)}>
+                Close
+                <ContextMenuShortcut>{keymap.keymap['tab.close'][0]}</ContextMenuShortcut>
+              </ContextMenuItem>
+              <ContextMenuItem
+                disabled={openTabs.openNoteIds.every(id => id === note.id || openTabs.pinnedNoteIds.includes(id))}
+                onSelect={() => closeOtherTabs(note.id)}
+              >
+                Close others
+              </ContextMenuItem>
+              <ContextMenuItem
+                disabled={openTabs.openNoteIds.slice(tabIndex + 1).every(id => openTabs.pinnedNoteIds.includes(id))}
+                onSelect={() => closeTabsToTheRight(note.id)}
+              >
+                Close tabs to the right
+              </ContextMenuItem>
+              <ContextMenuSeparator />
+              <ContextMenuItem onSelect={() => copyNoteContent(note)}>Copy content</ContextMenuItem>
+              <ContextMenuSub>
+                <ContextMenuSubTrigger>Export</ContextMenuSubTrigger>
+                <ContextMenuSubContent>
+                  {NOTE_FORMATS.map(({ format, label }) => (
+                    <ContextMenuItem key={format} onSelect={() => downloadNote(note, format)}>
+                      {label}
+                    </ContextMenuItem>
+                  ))}
+                </ContextMenuSubContent>
+              </ContextMenuSub>
+            </ContextMenuContent>
+          </ContextMenu>
+        )}
+      </Draggable>
+    );
+  };
+
+  return (
+    <SidebarProvider
+      className="h-screen min-h-0"
+      open={isSidebarOpen}
+      onOpenChange={setIsSidebarOpen}
+      keyboardShortcut={false}
+    >
+      <NotesSidebar
+        notes={libraryNotes}
+        folders={folders}
+        activeNoteId={activeNoteId}
+        onOpenNote={switchToNote}
+        onCreateNote={createNewNote}
+        onMoveNote={moveNoteToFolder}
+        onDeleteFolder={deleteFolder}
+        onTrashNote={trashNote}
+      >
+        <TagBrowser
+          tags={allTags}
+          filter={tagFilter}
+          onFilterChange={setTagFilter}
+          onRenameTag={renameTagEverywhere}
+        />
+      </NotesSidebar>
+      <SidebarInset className="h-screen min-h-0 min-w-0 bg-background flex flex-col font-sans">
+        {/* Header */}
+        <header className="bg-gradient-to-r from-card to-background/90 border-b border-border/60 px-6 py-4 shadow-notepad backdrop-blur-sm">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <SidebarTrigger className="-ml-2" title={`Toggle notebooks${shortcutHint('view.toggleSidebar')}`} />
+              <div className="w-2 h-2 bg-accent rounded-full animate-pulse" />
+              <h1 className="text-lg font-semibold text-foreground bg-gradient-to-r from-foreground to-foreground/80 bg-clip-text">
+                Smart Notepad
+              </h1>
+            </div>
+        
+            <div className="flex items-center gap-1">
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={viewState.mode}
+                onValueChange={(mode) => mode && updateViewState({ mode: mode as ViewMode })}
+                className="mr-1 rounded-lg bg-secondary/40 p-0.5"
+                aria-label="View mode"
+              >
+                <ToggleGroupItem value="edit" className="gap-2 rounded-md data-[state=on]:bg-accent/20 data-[state=on]:text-accent" title="Edit">
+                  <Edit3 className="h-4 w-4" />
+                  <span className="hidden sm:inline">Edit</span>
+                </ToggleGroupItem>
+                <ToggleGroupItem value="split" className="gap-2 rounded-md data-[state=on]:bg-accent/20 data-[state=on]:text-accent" title="Split">
+                  <Columns2 className="h-4 w-4" />
+                  <span className="hidden sm:inline">Split</span>
+                </ToggleGroupItem>
+                <ToggleGroupItem value="preview" className="gap-2 rounded-md data-[state=on]:bg-accent/20 data-[state=on]:text-accent" title="Preview">
+                  <Eye className="h-4 w-4" />
+                  <span className="hidden sm:inline">Preview</span>
+                </ToggleGroupItem>
+              </ToggleGroup>
+          
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsSearchOpen(true)}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title={`Search notes${shortcutHint('search.notes')}`}
+              >
+                <Search className="h-4 w-4" />
+                <span className="hidden sm:inline">Search</span>
+              </Button>
+          
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsAllNotesOpen(true)}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title="All notes"
+              >
+                <Library className="h-4 w-4" />
+                <span className="hidden sm:inline">All notes</span>
+              </Button>
+              
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsTasksOpen(true)}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title={`All tasks${shortcutHint('view.tasks')}`}
+              >
+                <ListChecks className="h-4 w-4" />
+                <span className="hidden sm:inline">Tasks</span>
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsAgendaOpen(true)}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title={`Agenda${shortcutHint('view.agenda')}`}
+              >
+                <CalendarDays className="h-4 w-4" />
+                <span className="hidden sm:inline">Agenda</span>
+                {overdueCount > 0 && (
+                  <span className="rounded bg-destructive/15 px-1.5 text-[10px] text-destructive" title={`${overdueCount} overdue`}>
+                    {overdueCount}
+                  </span>
+                )}
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsHistoryOpen(true)}
+                disabled={!activeNote}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title="Revision history"
+              >
+                <History className="h-4 w-4" />
+                <span className="hidden sm:inline">History</span>
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsBacklinksOpen(true)}
+                disabled={!activeNote}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title="Backlinks and mentions"
+              >
+                <Link2 className="h-4 w-4" />
+                <span className="hidden sm:inline">Links</span>
+                {backlinkCount > 0 && (
+                  <span className="rounded bg-accent/20 px-1.5 text-[10px] text-accent">{backlinkCount}</span>
+                )}
+              </Button>
+          
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={manualSave}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+              >
+                <Save className="h-4 w-4" />
+                <span className="hidden sm:inline">Save</span>
+              </Button>
+          
+              <ImportMenu onImport={importFiles} />
+          
+              <ExportMenu note={activeNote} notes={notesInTabOrder} folders={folders.folders} />
+          
+              <AIActionsMenu
+                disabled={!activeNote}
+                hasSelection={() => aiSelection() !== null}
+                onRun={runAIAction}
+                onOpenSettings={() => setIsAISettingsOpen(true)}
+              />
+          
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => createNewNote()}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+              >
+                <Plus className="h-4 w-4" />
+                <span className="hidden sm:inline">New</span>
+              </Button>
+          
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsTrashOpen(true)}
+                className="gap-2 rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title="Trash"
+              >
+                <Trash2 className="h-4 w-4" />
+                {trash.trash.length > 0 && (
+                  <span className="text-xs tabular-nums text-muted-foreground">{trash.trash.length}</span>
+                )}
+              </Button>
+          
+              <div className="w-px h-6 bg-border/60 mx-1" />
+          
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={toggleTheme}
+                className="rounded-lg hover:bg-secondary/80 hover:scale-105 transition-all duration-200"
+                title={isDarkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+              >
+                {isDarkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        {/* Tab Bar */}
+        <div
+          {...fileDropHandlers}
+          className={`flex items-start gap-1 bg-gradient-to-b from-background to-notepad-tab-bg border-b border-border/60 px-2 py-1 transition-colors ${
+            isDraggingFiles ? 'bg-accent/10' : ''
+          }`}
+        >
+          {!multiRowTabs && (tabStrip.canScrollLeft || tabStrip.canScrollRight) && (
+            <button
+              onClick={() => tabStrip.scrollTabs('left')}
+              disabled={!tabStrip.canScrollLeft}
+              className="flex items-center justify-center w-7 h-7 mt-2 shrink-0 rounded-md text-muted-foreground hover:bg-notepad-tab-hover hover:text-foreground disabled:opacity-30 disabled:pointer-events-none transition-colors"
+              title="Scroll tabs left"
+              aria-label="Scroll tabs left"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+          )}
+
+          <div
+            ref={tabStripRef}
+            className={`flex-1 min-w-0 [scrollbar-width:none] [&::-webkit-scrollbar]:hidden ${
+              multiRowTabs ? 'max-h-40 overflow-y-auto' : 'overflow-x-auto'
+            }`}
+          >
+            <div className={multiRowTabs ? 'flex flex-col' : 'flex min-w-max'}>
+              <DragDropContext onDragEnd={handleDragEnd}>
+                {tabRows.map((row, rowIndex) => (
+                  <Droppable key={rowIndex} droppableId={`tabs-${rowIndex}`} direction="horizontal">
                     {(provided, snapshot) => (
                       <div
+                        {...provided.droppableProps}
                         ref={provided.innerRef}
-                        {...provided.draggableProps}
-                        className={`group relative flex items-center min-w-0 max-w-48 transition-all duration-300 ease-out ${
-                          snapshot.isDragging ? 'rotate-2 scale-105 z-50' : ''
-                        } ${
-                          activeNoteId === note.id
-                            ? 'bg-card shadow-notepad-elevated border border-border/50 rounded-t-lg'
-                            : 'bg-notepad-tab-bg hover:bg-notepad-tab-hover hover:shadow-notepad rounded-lg mt-1'
+                        className={`flex gap-1 min-w-max transition-all duration-200 ${
+                          snapshot.isDraggingOver ? 'bg-accent/10 rounded-lg p-1' : ''
                         }`}
-                        style={{
-                          ...provided.draggableProps.style,
-                          transform: snapshot.isDragging 
-                            ? `${provided.draggableProps.style?.transform} rotate(2deg)` 
-                            : provided.draggableProps.style?.transform,
-                        }}
                       >
-                        {/* Drag Handle */}
-                        <div
-                          {...provided.dragHandleProps}
-                          className="flex items-center pl-2 pr-1 py-3 opacity-0 group-hover:opacity-70 hover:opacity-100 transition-opacity cursor-grab active:cursor-grabbing"
-                        >
-                          <GripVertical className="h-3 w-3 text-muted-foreground" />
-                        </div>
-
-                        {/* Tab Content */}
-                        <div className="flex-1 min-w-0 flex items-center">
-                          {isRenamingTab === note.id ? (
-                            <input
-                              type="text"
-                              value={tempTitle}
-                              onChange={(e) => setTempTitle(e.target.value)}
-                              onBlur={saveRename}
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter') saveRename();
-                                if (e.key === 'Escape') {
-                                  setIsRenamingTab(null);
-                                  setTempTitle('');
-                                }
-                              }}
-                              className="bg-transparent border-none outline-none px-2 py-3 text-sm min-w-0 w-full focus:bg-accent/20 rounded"
-                              autoFocus
-                            />
-                          ) : (
+                        {row.map(renderTab)}
+                        {provided.placeholder}
+
+                        {rowIndex === tabRows.length - 1 && (
+                          <>
+                            {/* Add New Tab Button */}
                             <button
-                              onClick={() => switchToNote(note.id)}
-                              onDoubleClick={() => startRename(note.id, note.title)}
-                              className={`flex-1 px-2 py-3 text-left text-sm truncate transition-all duration-200 rounded ${
-                                activeNoteId === note.id
-                                  ? 'text-foreground font-medium'
-                                  : 'text-muted-foreground hover:text-foreground'
-                              }`}
-                              title={note.title}
+                              onClick={() => createNewNote()}
+                              className="flex items-center justify-center w-8 h-8 ml-2 my-1 rounded-lg bg-notepad-tab-bg hover:bg-notepad-tab-hover border border-dashed border-border/60 hover:border-accent/60 transition-all duration-200 hover:scale-105 group"
+                              title={`Add new note${shortcutHint('note.new')}`}
                             >
-                              {note.title}
+                              <Plus className="h-4 w-4 text-muted-foreground group-hover:text-accent transition-colors" />
                             </button>
-                          )}
-                        </div>
-
-                        {/* Close Button */}
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            closeNote(note.id);
-                          }}
-                          className={`mr-2 p-1.5 rounded-full transition-all duration-200 ${
-                            activeNoteId === note.id
-                              ? 'opacity-60 hover:opacity-100 hover:bg-destructive/20 hover:text-destructive'
-                              : 'opacity-0 group-hover:opacity-60 hover:opacity-100 hover:bg-destructive/20 hover:text-destructive'
-                          }`}
-                          aria-label={`Close ${note.title}`}
-                        >
-                          <X className="h-3 w-3" />
-                        </button>
-
-                        {/* Active Tab Indicator */}
-                        {activeNoteId === note.id && (
-                          <div className="absolute bottom-0 left-2 right-2 h-0.5 bg-accent rounded-full animate-scale-in" />
+
+                            {/* Active tag filter */}
+                            {tagFilter.tags.length > 0 && (
+                              <button
+                                onClick={() => setTagFilter({ ...tagFilter, tags: [] })}
+                                className="flex items-center gap-1 self-center ml-2 px-2 py-1 rounded-full bg-accent/15 text-xs text-accent hover:bg-accent/25 transition-colors"
+                                title="Clear tag filter"
+                              >
+                                {tagFilter.tags.map(tag => `#${tag}`).join(tagFilter.mode === 'and' ? ' + ' : ' / ')}
+                                <X className="h-3 w-3" />
+                              </button>
+                            )}
+                          </>
                         )}
                       </div>
                     )}
-                  </Draggable>
+                  </Droppable>
                 ))}
-                {provided.placeholder}
-                
-                {/* Add New Tab Button */}
+              </DragDropContext>
+            </div>
+          </div>
+
+          {!multiRowTabs && (tabStrip.canScrollLeft || tabStrip.canScrollRight) && (
+            <button
+              onClick={() => tabStrip.scrollTabs('right')}
+              disabled={!tabStrip.canScrollRight}
+              className="flex items-center justify-center w-7 h-7 mt-2 shrink-0 rounded-md text-muted-foreground hover:bg-notepad-tab-hover hover:text-foreground disabled:opacity-30 disabled:pointer-events-none transition-colors"
+              title="Scroll tabs right"
+              aria-label="Scroll tabs right"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          )}
+
+          <div className="mt-2 shrink-0">
+            <TabListMenu
+              tabs={openNotes}
+              pinnedNoteIds={openTabs.pinnedNoteIds}
+              activeNoteId={activeNoteId}
+              onSelect={switchToNote}
+              multiRow={multiRowTabs}
+              onMultiRowChange={changeMultiRowTabs}
+            />
+          </div>
+        </div>
+
+        {/* Editor Area */}
+        <div {...fileDropHandlers} className="flex-1 bg-card relative overflow-hidden">
+          {activeNote && (
+            <div className="h-full animate-fade-in">
+              {find.isOpen && viewState.mode !== 'preview' && <FindBar find={find} replaceShortcutHint={shortcutHint('search.replace')} />}
+              {viewState.mode === 'edit' && editor}
+              {viewState.mode === 'preview' && (
+                <MarkdownPreview
+                  content={activeNote.content}
+                  onWikiLinkClick={openWikiLink}
+                  wikiLinkExists={wikiLinkExists}
+                  onToggleTask={line => toggleNoteTask(activeNote.id, line)}
+                />
+              )}
+              {viewState.mode === 'split' && (
+                <ResizablePanelGroup
+                  key={activeNote.id}
+                  direction="horizontal"
+                  onLayout={([editorSize]) => {
+                    if (Math.round(editorSize) !== Math.round(viewState.splitRatio)) {
+                      updateViewState({ splitRatio: editorSize });
+                    }
+                  }}
+                >
+                  <ResizablePanel defaultSize={viewState.splitRatio} minSize={15}>
+                    {editor}
+                  </ResizablePanel>
+                  <ResizableHandle withHandle />
+                  <ResizablePanel defaultSize={100 - viewState.splitRatio} minSize={15}>
+                    <MarkdownPreview
+                      ref={previewRef}
+                      content={activeNote.content}
+                      onScroll={onPreviewScroll}
+                      onWikiLinkClick={openWikiLink}
+                      wikiLinkExists={wikiLinkExists}
+                      onToggleTask={line => toggleNoteTask(activeNote.id, line)}
+                    />
+                  </ResizablePanel>
+                </ResizablePanelGroup>
+              )}
+            </div>
+          )}
+      
+          {!activeNote && (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-sm text-muted-foreground animate-fade-in">
+              <p>No notes are open.</p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => createNewNote()}>
+                  <Plus className="h-4 w-4" />
+                  New note
+                </Button>
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsAllNotesOpen(true)}>
+                  <Library className="h-4 w-4" />
+                  All notes
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isDraggingFiles && (
+            <div className="absolute inset-4 z-30 flex items-center justify-center rounded-xl border-2 border-dashed border-accent/60 bg-accent/5 text-sm text-accent pointer-events-none animate-fade-in">
+              Drop files or folders to import them as notes
+            </div>
+          )}
+
+          {/* Subtle border gradient for depth */}
+          <div className="absolute inset-0 pointer-events-none border border-border/20 rounded-none" />
+        </div>
+
+        {/* Status Bar */}
+        <footer className="bg-gradient-to-r from-muted to-background/80 border-t border-border/60 px-6 py-3 text-xs text-muted-foreground backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <div className="w-1 h-1 bg-accent rounded-full" />
+                <span className="font-medium">
+                  {notes.length} {notes.length === 1 ? 'note' : 'notes'} · {openNotes.length} open
+                </span>
+              </div>
+              {activeNote && (
+                <span className="text-muted-foreground/80">
+                  Last modified: {new Date(activeNote.lastModified).toLocaleString()}
+                </span>
+              )}
+              {activeNote && (
                 <button
-                  onClick={createNewNote}
-                  className="flex items-center justify-center w-8 h-8 ml-2 my-1 rounded-lg bg-notepad-tab-bg hover:bg-notepad-tab-hover border border-dashed border-border/60 hover:border-accent/60 transition-all duration-200 hover:scale-105 group"
-                  title="Add new note (Ctrl+T)"
+                  onClick={() => setDueTarget({ note: activeNote })}
+                  className="flex items-center gap-1 hover:text-foreground transition-colors"
+                  title={`Due date of this note${shortcutHint('edit.setDueDate')}`}
                 >
-                  <Plus className="h-4 w-4 text-muted-foreground group-hover:text-accent transition-colors" />
+                  <AlarmClock className="h-3 w-3" />
+                  {activeNoteDue ? `Due ${formatDue(activeNoteDue.due, reminders.now)}` : 'Add due date'}
                 </button>
-              </div>
-            )}
-          </Droppable>
-        </DragDropContext>
-      </div>
+              )}
+            </div>
+            <div className="hidden sm:flex items-center gap-3 text-muted-foreground/70">
+              <button
+                onClick={() => changeEditorSettings({ lineNumbers: !editorSettings.lineNumbers })}
+                className={`hover:text-foreground transition-colors ${editorSettings.lineNumbers ? 'text-foreground' : ''}`}
+                aria-pressed={editorSettings.lineNumbers}
+                title={`Toggle line numbers${shortcutHint('view.toggleLineNumbers')}`}
+              >
+                Line numbers
+              </button>
+              <button
+                onClick={() => changeEditorSettings({ softWrap: !editorSettings.softWrap })}
+                className={`hover:text-foreground transition-colors ${editorSettings.softWrap ? 'text-foreground' : ''}`}
+                aria-pressed={editorSettings.softWrap}
+                title={`Toggle soft wrap${shortcutHint('view.toggleSoftWrap')}`}
+              >
+                Wrap
+              </button>
+              {keymap.pendingChord.length > 0 && (
+                <span className="flex items-center gap-1 text-accent">
+                  <ShortcutKeys shortcut={keymap.pendingChord.join(' ')} />
+                  <span>…</span>
+                </span>
+              )}
+              <button
+                onClick={() => setIsShortcutsOpen(true)}
+                className="flex items-center gap-1 hover:text-foreground transition-colors"
+              >
+                {keymap.keymap['help.shortcuts'][0] && <ShortcutKeys shortcut={keymap.keymap['help.shortcuts'][0]} />}
+                <span>Keyboard shortcuts</span>
+              </button>
+            </div>
+          </div>
+        </footer>
+
+        <KeyboardShortcutsDialog
+          open={isShortcutsOpen}
+          onOpenChange={setIsShortcutsOpen}
+          keymap={keymap}
+        />
+
+        <SearchPalette
+          open={isSearchOpen}
+          onOpenChange={setIsSearchOpen}
+          index={search.index}
+          version={search.version}
+          onSelect={openSearchResult}
+        />
+
+        <ConflictDialog
+          conflict={conflicts[0]}
+          onKeepMine={keepMine}
+          onUseTheirs={takeTheirs}
+          onKeepBoth={keepBoth}
+        />
+
+        <ImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+
+        <AIResultDialog
+          run={ai.run}
+          providerName={aiProvider.name}
+          onAccept={acceptAIResult}
+          onClose={ai.dismiss}
+          onStop={ai.stop}
+        />
+
+        <AISettingsDialog
+          open={isAISettingsOpen}
+          onOpenChange={setIsAISettingsOpen}
+          settings={aiSettings}
+          onSave={saveAIProviderSettings}
+        />
+
+        <TagEditorDialog
+          note={notes.find(note => note.id === taggingNoteId)}
+          knownTags={allTags.map(({ tag }) => tag)}
+          onSave={setNoteTags}
+          onClose={() => setTaggingNoteId(null)}
+        />
+
+        <AllNotesPanel
+          open={isAllNotesOpen}
+          onOpenChange={setIsAllNotesOpen}
+          notes={libraryNotes}
+          folders={folders.folders}
+          openNoteIds={openTabs.openNoteIds}
+          onOpenNote={switchToNote}
+          onTrashNote={trashNote}
+        />
+
+        <TasksPanel
+          open={isTasksOpen}
+          onOpenChange={setIsTasksOpen}
+          notes={libraryNotes}
+          folders={folders.folders}
+          openNoteIds={openTabs.openNoteIds}
+          onOpenTask={openTask}
+          onToggleTask={toggleNoteTask}
+        />
+
+        <AgendaPanel
+          open={isAgendaOpen}
+          onOpenChange={setIsAgendaOpen}
+          notes={libraryNotes}
+          reminders={reminders}
+          onOpenItem={openTask}
+          onToggleTask={toggleNoteTask}
+        />
+
+        <DueDateDialog target={dueTarget} onSave={saveDueDate} onClose={() => setDueTarget(undefined)} />
+
+        <TrashPanel
+          open={isTrashOpen}
+          onOpenChange={setIsTrashOpen}
+          trash={trash}
+          onRestore={restoreNote}
+        />
 
-      {/* Editor Area */}
-      <div className="flex-1 bg-card relative overflow-hidden">
         {activeNote && (
-          <div className="h-full animate-fade-in">
-            {isMarkdownPreview ? (
-              <div 
-                className="h-full p-6 overflow-y-auto prose prose-sm max-w-none font-mono bg-gradient-to-br from-card to-background/50 animate-scale-in"
-                dangerouslySetInnerHTML={{ 
-                  __html: renderMarkdown(activeNote.content) 
-                }}
-              />
-            ) : (
-              <textarea
-                ref={textareaRef}
-                value={activeNote.content}
-                onChange={handleContentChange}
-                className="w-full h-full p-6 bg-transparent border-none outline-none resize-none font-mono text-sm leading-relaxed text-foreground placeholder:text-muted-foreground focus:bg-gradient-to-br focus:from-card focus:to-accent/5 transition-all duration-300"
-                placeholder="Start typing your note..."
-                spellCheck={false}
-                style={{
-                  fontFamily: 'Consolas, Menlo, Monaco, "Liberation Mono", "Courier New", monospace',
-                  lineHeight: '1.6',
-                  letterSpacing: '0.02em'
-                }}
-              />
-            )}
-          </div>
+          <BacklinksPanel
+            open={isBacklinksOpen}
+            onOpenChange={setIsBacklinksOpen}
+            note={activeNote}
+            notes={notes}
+            onOpenNote={switchToNote}
+            onLinkMentions={linkMentionsIn}
+          />
         )}
-        
-        {/* Subtle border gradient for depth */}
-        <div className="absolute inset-0 pointer-events-none border border-border/20 rounded-none" />
-      </div>
-
-      {/* Status Bar */}
-      <footer className="bg-gradient-to-r from-muted to-background/80 border-t border-border/60 px-6 py-3 text-xs text-muted-foreground backdrop-blur-sm">
-        <div className="flex justify-between items-center">
-          <div className="flex items-center gap-6">
-            <div className="flex items-center gap-2">
-              <div className="w-1 h-1 bg-accent rounded-full" />
-              <span className="font-medium">{notes.length} {notes.length === 1 ? 'note' : 'notes'}</span>
-            </div>
-            {activeNote && (
-              <span className="text-muted-foreground/80">
-                Last modified: {new Date(activeNote.lastModified).toLocaleString()}
-              </span>
-            )}
-          </div>
-          <div className="hidden sm:flex items-center gap-1 text-muted-foreground/70">
-            <kbd className="px-1.5 py-0.5 bg-border/40 rounded text-xs">Ctrl+T</kbd>
-            <span>New</span>
-            <span className="mx-2">•</span>
-            <kbd className="px-1.5 py-0.5 bg-border/40 rounded text-xs">Ctrl+W</kbd>
-            <span>Close</span>
-            <span className="mx-2">•</span>
-            <kbd className="px-1.5 py-0.5 bg-border/40 rounded text-xs">Ctrl+S</kbd>
-            <span>Save</span>
-          </div>
-        </div>
-      </footer>
-    </div>
+
+        {activeNote && (
+          <HistoryPanel
+            open={isHistoryOpen}
+            onOpenChange={setIsHistoryOpen}
+            note={activeNote}
+            loadRevisions={revisionHistory.list}
+            onRestore={restoreRevision}
+          />
+        )}
+      </SidebarInset>
+    </SidebarProvider>
   );
-}
\ No newline at end of file
+}
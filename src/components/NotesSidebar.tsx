@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { ChevronRight, FilePlus, FileText, Folder as FolderIcon, FolderPlus, MoreHorizontal } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarRail,
+} from '@/components/ui/sidebar';
+import type { Folders } from '@/hooks/use-folders';
+import { canMoveFolder, childFolders, flattenFolders, notesInFolder } from '@/lib/folders';
+import type { Folder, Note } from '@/lib/storage';
+
+interface NotesSidebarProps {
+  notes: Note[];
+  folders: Folders;
+  activeNoteId: string | null;
+  onOpenNote: (noteId: string) => void;
+  onCreateNote: (folderId: string | null) => void;
+  onMoveNote: (noteId: string, folderId: string | null) => void;
+  onTrashNote: (noteId: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+  /** Extra sidebar sections shown below the notebooks (e.g. tags). */
+  children?: React.ReactNode;
+}
+
+// Sidebar items carry this type while dragged, so file drops are not mistaken for moves
+const DRAG_TYPE = 'application/x-notepad-item';
+const ROOT = 'root';
+
+type DragItem = { kind: 'note' | 'folder'; id: string };
+
+interface TreeProps extends NotesSidebarProps {
+  editingFolderId: string | null;
+  setEditingFolderId: (folderId: string | null) => void;
+  dropTarget: string | null;
+  dropHandlers: (folderId: string | null) => React.HTMLAttributes<HTMLElement>;
+  dragHandlers: (item: DragItem) => React.HTMLAttributes<HTMLElement>;
+}
+
+// "Move to" submenu listing the top level and every folder the item may go into
+function MoveToMenu({ folders, currentFolderId, isAllowed, onMove }: {
+  folders: Folder[];
+  currentFolderId: string | null;
+  isAllowed: (folderId: string | null) => boolean;
+  onMove: (folderId: string | null) => void;
+}) {
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>Move to</DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        <DropdownMenuItem disabled={currentFolderId === null} onSelect={() => onMove(null)}>
+          Top level
+        </DropdownMenuItem>
+        {flattenFolders(folders).map(({ folder, depth }) => (
+          <DropdownMenuItem
+            key={folder.id}
+            disabled={folder.id === currentFolderId || !isAllowed(folder.id)}
+            onSelect={() => onMove(folder.id)}
+            style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+          >
+            {folder.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
+
+// Dropping onto a note files the dragged item next to it
+function NoteItem({ note, folderId, tree }: { note: Note; folderId: string | null; tree: TreeProps }) {
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton
+        isActive={note.id === tree.activeNoteId}
+        onClick={() => tree.onOpenNote(note.id)}
+        title={note.title}
+        {...tree.dragHandlers({ kind: 'note', id: note.id })}
+        {...tree.dropHandlers(folderId)}
+      >
+        <FileText />
+        <span>{note.title}</span>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover aria-label={`Actions for ${note.title}`}>
+            <MoreHorizontal />
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem onSelect={() => tree.onOpenNote(note.id)}>Open</DropdownMenuItem>
+          <MoveToMenu
+            folders={tree.folders.folders}
+            currentFolderId={note.folderId ?? null}
+            isAllowed={() => true}
+            onMove={folderId => tree.onMoveNote(note.id, folderId)}
+          />
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            onSelect={() => tree.onTrashNote(note.id)}
+          >
+            Move to trash
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+}
+
+function FolderItem({ folder, tree }: { folder: Folder; tree: TreeProps }) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [name, setName] = useState(folder.name);
+  const { folders, renameFolder, moveFolder, createFolder } = tree.folders;
+  const isEditing = tree.editingFolderId === folder.id;
+
+  const startRename = () => {
+    setName(folder.name);
+    tree.setEditingFolderId(folder.id);
+  };
+
+  const finishRename = (save: boolean) => {
+    if (save && name.trim()) renameFolder(folder.id, name.trim());
+    tree.setEditingFolderId(null);
+  };
+
+  const createSubfolder = () => {
+    setIsOpen(true);
+    tree.setEditingFolderId(createFolder('New folder', folder.id).id);
+  };
+
+  return (
+    <Collapsible asChild open={isOpen} onOpenChange={setIsOpen} className="group/collapsible">
+      <SidebarMenuItem>
+        {isEditing ? (
+          <SidebarInput
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onFocus={e => e.target.select()}
+            onBlur={() => finishRename(true)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') finishRename(true);
+              if (e.key === 'Escape') finishRename(false);
+            }}
+            aria-label="Folder name"
+            autoFocus
+          />
+        ) : (
+          <CollapsibleTrigger asChild>
+            <SidebarMenuButton
+              onDoubleClick={startRename}
+              className={tree.dropTarget === folder.id ? 'bg-sidebar-accent ring-2 ring-sidebar-ring' : ''}
+              {...tree.dragHandlers({ kind: 'folder', id: folder.id })}
+              {...tree.dropHandlers(folder.id)}
+            >
+              <ChevronRight className="transition-transform group-data-[state=open]/collapsible:rotate-90" />
+              <FolderIcon />
+              <span>{folder.name}</span>
+            </SidebarMenuButton>
+          </CollapsibleTrigger>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover aria-label={`Actions for ${folder.name}`}>
+              <MoreHorizontal />
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          {/* Keep focus on the rename field when Rename or New folder was chosen */}
+          <DropdownMenuContent side="right" align="start" onCloseAutoFocus={e => e.preventDefault()}>
+            <DropdownMenuItem
+              onSelect={() => {
+                setIsOpen(true);
+                tree.onCreateNote(folder.id);
+              }}
+            >
+              New note
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={createSubfolder}>New folder</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={startRename}>Rename</DropdownMenuItem>
+            <MoveToMenu
+              folders={folders}
+              currentFolderId={folder.parentId}
+              isAllowed={parentId => canMoveFolder(folders, folder.id, parentId)}
+              onMove={parentId => moveFolder(folder.id, parentId)}
+            />
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-destructive focus:text-destructive"
+              onSelect={() => tree.onDeleteFolder(folder.id)}
+            >
+              Delete folder
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <CollapsibleContent>
+          <SidebarMenuSub className="mr-0 pr-0">
+            <FolderContents folderId={folder.id} tree={tree} />
+          </SidebarMenuSub>
+        </CollapsibleContent>
+      </SidebarMenuItem>
+    </Collapsible>
+  );
+}
+
+function FolderContents({ folderId, tree }: { folderId: string | null; tree: TreeProps }) {
+  const { folders } = tree.folders;
+  return (
+    <>
+      {childFolders(folders, folderId).map(folder => (
+        <FolderItem key={folder.id} folder={folder} tree={tree} />
+      ))}
+      {notesInFolder(tree.notes, folders, folderId).map(note => (
+        <NoteItem key={note.id} note={note} folderId={folderId} tree={tree} />
+      ))}
+    </>
+  );
+}
+
+export function NotesSidebar(props: NotesSidebarProps) {
+  const { folders, onCreateNote, onMoveNote } = props;
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const dragHandlers = (item: DragItem): React.HTMLAttributes<HTMLElement> => ({
+    draggable: true,
+    onDragStart: e => {
+      e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item));
+      e.dataTransfer.effectAllowed = 'move';
+    },
+    onDragEnd: () => setDropTarget(null),
+  });
+
+  const dropHandlers = (folderId: string | null): React.HTMLAttributes<HTMLElement> => ({
+    onDragOver: e => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folderId ?? ROOT);
+    },
+    onDragLeave: e => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+    },
+    onDrop: e => {
+      const data = e.dataTransfer.getData(DRAG_TYPE);
+      if (!data) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const item = JSON.parse(data) as DragItem;
+      if (item.kind === 'note') onMoveNote(item.id, folderId);
+      else if (item.id !== folderId) folders.moveFolder(item.id, folderId);
+    },
+  });
+
+  const tree: TreeProps = {
+    ...props,
+    editingFolderId,
+    setEditingFolderId,
+    dropTarget,
+    dropHandlers,
+    dragHandlers,
+  };
+
+  return (
+    <Sidebar>
+      <SidebarContent
+        {...dropHandlers(null)}
+        className={dropTarget === ROOT ? 'bg-sidebar-accent/50' : ''}
+      >
+        <SidebarGroup>
+          <SidebarGroupLabel>Notebooks</SidebarGroupLabel>
+          <SidebarGroupAction
+            className="right-9"
+            title="New folder"
+            onClick={() => setEditingFolderId(folders.createFolder('New folder', null).id)}
+          >
+            <FolderPlus />
+            <span className="sr-only">New folder</span>
+          </SidebarGroupAction>
+          <SidebarGroupAction title="New note" onClick={() => onCreateNote(null)}>
+            <FilePlus />
+            <span className="sr-only">New note</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <FolderContents folderId={null} tree={tree} />
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        {props.children}
+      </SidebarContent>
+      <SidebarRail />
+    </Sidebar>
+  );
+}
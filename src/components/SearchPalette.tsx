@@ -0,0 +1,76 @@
+import { useMemo, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import type { SearchIndex, SearchResult } from '@/lib/search-index';
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  index: SearchIndex;
+  /** Changes whenever the index does. */
+  version: number;
+  onSelect: (result: SearchResult) => void;
+}
+
+export function SearchPalette({ open, onOpenChange, index, version, onSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState('');
+  // Recomputed when the index changes, so hits follow edits and synced notes while open
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- the index is updated in place
+  const results = useMemo(() => (open ? index.search(query) : []), [index, version, query, open]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setQuery('');
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      {/* Focus goes to the selected match, not back to the trigger */}
+      <DialogContent
+        className="overflow-hidden p-0 shadow-lg"
+        onCloseAutoFocus={(e) => e.preventDefault()}
+      >
+        <DialogTitle className="sr-only">Search notes</DialogTitle>
+        {/* Ranking comes from the index, so cmdk's own filtering is disabled */}
+        <Command shouldFilter={false} className="[&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search all notes..."
+          />
+          <CommandList className="max-h-[420px]">
+            {query.trim() && <CommandEmpty>No matching notes.</CommandEmpty>}
+            {results.length > 0 && (
+              <CommandGroup heading={`${results.length} ${results.length === 1 ? 'result' : 'results'}`}>
+                {results.map(result => (
+                  <CommandItem
+                    key={result.note.id}
+                    value={result.note.id}
+                    onSelect={() => {
+                      handleOpenChange(false);
+                      onSelect(result);
+                    }}
+                    className="flex-col items-start gap-1"
+                  >
+                    <div className="flex items-center gap-2 font-medium">
+                      <FileText className="h-4 w-4 shrink-0 opacity-60" />
+                      <span className="truncate">{result.note.title}</span>
+                    </div>
+                    <div className="w-full truncate text-xs text-muted-foreground">
+                      {result.snippet.map((part, i) => part.highlight ? (
+                        <mark key={i} className="rounded-sm bg-accent/30 px-0.5 text-foreground">{part.text}</mark>
+                      ) : (
+                        <span key={i}>{part.text}</span>
+                      ))}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,17 @@
+import type { Shortcut } from '@/lib/keymap';
+
+interface ShortcutKeysProps {
+  shortcut: Shortcut;
+  className?: string;
+}
+
+// One <kbd> per combo, so chords read as "Ctrl+K then Ctrl+S"
+export function ShortcutKeys({ shortcut, className = '' }: ShortcutKeysProps) {
+  return (
+    <span className={`inline-flex items-center gap-1 ${className}`}>
+      {shortcut.split(' ').map((combo, i) => (
+        <kbd key={i} className="px-1.5 py-0.5 bg-border/40 rounded text-xs font-sans">{combo}</kbd>
+      ))}
+    </span>
+  );
+}
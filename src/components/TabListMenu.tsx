@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Check, ChevronDown, Pin } from 'lucide-react';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import type { Note } from '@/lib/storage';
+
+interface TabListMenuProps {
+  tabs: Note[];
+  pinnedNoteIds: string[];
+  activeNoteId: string | null;
+  onSelect: (noteId: string) => void;
+  /** Whether tabs wrap onto several rows instead of scrolling. */
+  multiRow: boolean;
+  onMultiRowChange: (multiRow: boolean) => void;
+}
+
+export function TabListMenu({ tabs, pinnedNoteIds, activeNoteId, onSelect, multiRow, onMultiRowChange }: TabListMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center justify-center w-7 h-7 shrink-0 rounded-md text-muted-foreground hover:bg-notepad-tab-hover hover:text-foreground transition-colors"
+          title="List all tabs"
+          aria-label="List all tabs"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <Command>
+          <CommandInput placeholder="Filter open tabs..." />
+          <CommandList>
+            <CommandEmpty>No open tab matches.</CommandEmpty>
+            <CommandGroup heading={`${tabs.length} open ${tabs.length === 1 ? 'tab' : 'tabs'}`}>
+              {tabs.map(note => (
+                <CommandItem
+                  key={note.id}
+                  // Titles may repeat; the id keeps every entry distinct
+                  value={`${note.title} ${note.id}`}
+                  onSelect={() => {
+                    onSelect(note.id);
+                    setOpen(false);
+                  }}
+                  className="gap-2"
+                >
+                  {pinnedNoteIds.includes(note.id)
+                    ? <Pin className="h-3.5 w-3.5 text-accent" />
+                    : <span className="w-3.5" />}
+                  <span className="flex-1 truncate">{note.title}</span>
+                  {note.id === activeNoteId && <Check className="h-3.5 w-3.5" />}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        <div className="flex items-center justify-between border-t px-3 py-2">
+          <Label htmlFor="tab-multi-row" className="text-xs font-normal text-muted-foreground">
+            Wrap tabs onto multiple rows
+          </Label>
+          <Switch id="tab-multi-row" checked={multiRow} onCheckedChange={onMultiRowChange} />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
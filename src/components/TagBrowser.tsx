@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Hash, MoreHorizontal, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { normalizeTag, type TagCount, type TagFilter, type TagMatchMode } from '@/lib/tags';
+
+interface TagBrowserProps {
+  tags: TagCount[];
+  filter: TagFilter;
+  onFilterChange: (filter: TagFilter) => void;
+  /** Renaming onto an existing tag merges the two. */
+  onRenameTag: (from: string, to: string) => void;
+}
+
+export function TagBrowser({ tags, filter, onFilterChange, onRenameTag }: TagBrowserProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const toggleTag = (tag: string) => {
+    const selected = filter.tags.includes(tag)
+      ? filter.tags.filter(t => t !== tag)
+      : [...filter.tags, tag];
+    onFilterChange({ ...filter, tags: selected });
+  };
+
+  const target = normalizeTag(newName);
+  const merges = !!target && target !== renaming && tags.some(({ tag }) => tag === target);
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Tags</SidebarGroupLabel>
+      {filter.tags.length > 0 && (
+        <SidebarGroupAction title="Clear tag filter" onClick={() => onFilterChange({ ...filter, tags: [] })}>
+          <X />
+          <span className="sr-only">Clear tag filter</span>
+        </SidebarGroupAction>
+      )}
+      <SidebarGroupContent>
+        {filter.tags.length > 1 && (
+          <div className="flex items-center gap-2 px-2 pb-1 text-xs text-sidebar-foreground/70">
+            <span>Match</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={filter.mode}
+              onValueChange={mode => mode && onFilterChange({ ...filter, mode: mode as TagMatchMode })}
+              aria-label="Tag match mode"
+            >
+              <ToggleGroupItem value="or" className="h-6 px-2 text-xs">Any</ToggleGroupItem>
+              <ToggleGroupItem value="and" className="h-6 px-2 text-xs">All</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        )}
+        <SidebarMenu>
+          {tags.length === 0 && (
+            <li className="px-2 py-1 text-xs text-sidebar-foreground/60">Write #tags in a note to see them here.</li>
+          )}
+          {tags.map(({ tag, count }) => (
+            <SidebarMenuItem key={tag}>
+              <SidebarMenuButton
+                size="sm"
+                isActive={filter.tags.includes(tag)}
+                aria-pressed={filter.tags.includes(tag)}
+                onClick={() => toggleTag(tag)}
+              >
+                <Hash />
+                <span>{tag}</span>
+              </SidebarMenuButton>
+              <SidebarMenuBadge className="group-hover/menu-item:opacity-0 group-focus-within/menu-item:opacity-0">
+                {count}
+              </SidebarMenuBadge>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <SidebarMenuAction showOnHover aria-label={`Actions for #${tag}`}>
+                    <MoreHorizontal />
+                  </SidebarMenuAction>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent side="right" align="start">
+                  <DropdownMenuItem
+                    onSelect={() => {
+                      setRenaming(tag);
+                      setNewName(tag);
+                    }}
+                  >
+                    Rename or merge…
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </SidebarMenuItem>
+          ))}
+        </SidebarMenu>
+      </SidebarGroupContent>
+
+      <Dialog open={renaming !== null} onOpenChange={open => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename #{renaming}</DialogTitle>
+            <DialogDescription>
+              Updates the tag lists and #hashtags of every note. Use an existing name to merge the two tags.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={e => {
+              e.preventDefault();
+              if (renaming && target && target !== renaming) onRenameTag(renaming, target);
+              setRenaming(null);
+            }}
+          >
+            <Input value={newName} onChange={e => setNewName(e.target.value)} aria-label="New tag name" autoFocus />
+            {merges && (
+              <p className="text-sm text-muted-foreground">#{renaming} will be merged into #{target}.</p>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setRenaming(null)}>Cancel</Button>
+              <Button type="submit" disabled={!target || target === renaming}>
+                {merges ? 'Merge' : 'Rename'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </SidebarGroup>
+  );
+}
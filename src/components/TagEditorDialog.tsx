@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { rankOptions } from '@/lib/completion';
+import type { Note } from '@/lib/storage';
+import { inlineTags, normalizeTag } from '@/lib/tags';
+
+interface TagEditorDialogProps {
+  note: Note | undefined;
+  /** Every tag in use, for suggestions. */
+  knownTags: string[];
+  onSave: (noteId: string, tags: string[]) => void;
+  onClose: () => void;
+}
+
+export function TagEditorDialog({ note, knownTags, onSave, onClose }: TagEditorDialogProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [input, setInput] = useState('');
+
+  useEffect(() => {
+    setTags((note?.tags ?? []).map(normalizeTag));
+    setInput('');
+  }, [note]);
+
+  const inline = note ? inlineTags(note.content) : [];
+  const suggestions = input.trim()
+    ? rankOptions(knownTags, normalizeTag(input)).filter(tag => !tags.includes(tag)).slice(0, 6)
+    : [];
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setInput('');
+  };
+
+  return (
+    <Dialog open={!!note} onOpenChange={open => !open && onClose()}>
+      {note && (
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tags of “{note.title}”</DialogTitle>
+            <DialogDescription>
+              Add tags here or write #hashtags in the note. Press Enter or comma to add a tag.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap gap-1.5">
+            {tags.length === 0 && <span className="text-sm text-muted-foreground">No tags yet.</span>}
+            {tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                #{tag}
+                <button
+                  onClick={() => setTags(tags.filter(t => t !== tag))}
+                  className="rounded-full p-0.5 hover:bg-destructive/20 hover:text-destructive"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <Input
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTag(input);
+                } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+                  setTags(tags.slice(0, -1));
+                }
+              }}
+              placeholder="Add a tag"
+              aria-label="Add a tag"
+              autoFocus
+            />
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => addTag(tag)}
+                    className="rounded-md px-1.5 py-0.5 text-xs text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {inline.length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              From the note's text: {inline.map(tag => `#${tag}`).join(' ')}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={onClose}>Cancel</Button>
+            <Button
+              onClick={() => {
+                const pending = normalizeTag(input);
+                onSave(note.id, pending && !tags.includes(pending) ? [...tags, pending] : tags);
+              }}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Switch } from '@/components/ui/switch';
+import { folderPath } from '@/lib/folders';
+import type { Folder, Note } from '@/lib/storage';
+import { noteTasks, type Task } from '@/lib/tasks';
+
+interface TasksPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notes: Note[];
+  folders: Folder[];
+  openNoteIds: string[];
+  /** Show the task's line in the editor. */
+  onOpenTask: (noteId: string, task: Task) => void;
+  onToggleTask: (noteId: string, line: number) => void;
+}
+
+export function TasksPanel({ open, onOpenChange, notes, folders, openNoteIds, onOpenTask, onToggleTask }: TasksPanelProps) {
+  // "all", "open" (notes open as tabs) or a folder id
+  const [scope, setScope] = useState('all');
+  const [filter, setFilter] = useState('');
+  const [showDone, setShowDone] = useState(false);
+
+  // Notes with their matching tasks, in library order
+  const groups = useMemo(() => {
+    if (!open) return [];
+    const needle = filter.trim().toLowerCase();
+    return notes
+      .filter(note => scope === 'all'
+        || (scope === 'open' ? openNoteIds.includes(note.id) : note.folderId === scope))
+      .map(note => ({
+        note,
+        tasks: noteTasks(note).filter(task => (showDone || !task.checked)
+          && (!needle || task.text.toLowerCase().includes(needle) || note.title.toLowerCase().includes(needle))),
+      }))
+      .filter(group => group.tasks.length > 0);
+  }, [open, notes, scope, openNoteIds, filter, showDone]);
+
+  const taskCount = groups.reduce((count, group) => count + group.tasks.length, 0);
+
+  const openTask = (noteId: string, task: Task) => {
+    onOpenTask(noteId, task);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>All tasks</SheetTitle>
+          <SheetDescription>
+            Open "- [ ]" items from every note. Click one to jump to it, or tick it off here.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Input
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              placeholder="Filter tasks"
+              className="h-8 flex-1"
+              aria-label="Filter tasks by text or note title"
+            />
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="h-8 w-40" aria-label="Notes to include"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All notes</SelectItem>
+                <SelectItem value="open">Open tabs</SelectItem>
+                {folders.map(folder => (
+                  <SelectItem key={folder.id} value={folder.id}>{folderPath(folders, folder.id).join(' / ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {taskCount} {taskCount === 1 ? 'task' : 'tasks'} in {groups.length} {groups.length === 1 ? 'note' : 'notes'}
+            </span>
+            <div className="flex items-center gap-2">
+              <Switch id="tasks-show-done" checked={showDone} onCheckedChange={setShowDone} />
+              <Label htmlFor="tasks-show-done" className="text-xs">Show completed</Label>
+            </div>
+          </div>
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1">
+          <div className="space-y-4 pr-3">
+            {groups.length === 0 && (
+              <p className="rounded-md border border-border/60 px-3 py-8 text-center text-sm text-muted-foreground">
+                {filter.trim() || scope !== 'all' ? 'No tasks match the filters.' : 'No open tasks. Add one with "- [ ]".'}
+              </p>
+            )}
+            {groups.map(({ note, tasks }) => (
+              <section key={note.id} className="space-y-1">
+                <h3 className="truncate text-sm font-medium">{note.title}</h3>
+                <ul className="divide-y divide-border/60 rounded-md border border-border/60 text-sm">
+                  {tasks.map(task => (
+                    <li key={task.line} className="flex items-start gap-2 px-3 py-2">
+                      <Checkbox
+                        checked={task.checked}
+                        onCheckedChange={() => onToggleTask(note.id, task.line)}
+                        className="mt-0.5"
+                        aria-label={task.checked ? 'Mark as not done' : 'Mark as done'}
+                      />
+                      <button
+                        onClick={() => openTask(note.id, task)}
+                        className={`min-w-0 flex-1 rounded text-left hover:text-accent ${
+                          task.checked ? 'text-muted-foreground line-through' : ''
+                        }`}
+                        title={`Line ${task.line + 1} of ${note.title}`}
+                      >
+                        {task.text || <span className="italic text-muted-foreground">Empty task</span>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
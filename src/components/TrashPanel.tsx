@@ -0,0 +1,104 @@
+import { ArchiveRestore, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { Trash } from '@/hooks/use-trash';
+
+interface TrashPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trash: Trash;
+  onRestore: (noteId: string) => void;
+}
+
+const RETENTION_CHOICES = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Forever' },
+];
+
+export function TrashPanel({ open, onOpenChange, trash, onRestore }: TrashPanelProps) {
+  const newestFirst = [...trash.trash].sort((a, b) => (b.trashedAt ?? 0) - (a.trashedAt ?? 0));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Trash</SheetTitle>
+          <SheetDescription>
+            Deleted notes are kept here until they are restored or the retention period ends.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Delete after</span>
+          <Select
+            value={String(trash.retentionDays)}
+            onValueChange={(value) => trash.setRetentionDays(Number(value))}
+          >
+            <SelectTrigger className="h-8 w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RETENTION_CHOICES.map(choice => (
+                <SelectItem key={choice.days} value={String(choice.days)}>{choice.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto gap-2 hover:bg-destructive/20 hover:text-destructive"
+            disabled={newestFirst.length === 0}
+            onClick={() => trash.deleteForever(newestFirst.map(note => note.id))}
+          >
+            <Trash2 className="h-4 w-4" />
+            Empty trash
+          </Button>
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1 rounded-md border border-border/60">
+          <ul className="divide-y divide-border/60 text-sm">
+            {newestFirst.length === 0 && (
+              <li className="px-3 py-8 text-center text-muted-foreground">The trash is empty.</li>
+            )}
+            {newestFirst.map(note => (
+              <li key={note.id} className="flex items-start gap-2 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{note.title}</div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {note.content.slice(0, 80) || 'Empty note'}
+                  </div>
+                  <div className="text-xs text-muted-foreground/70">
+                    Deleted {new Date(note.trashedAt ?? 0).toLocaleString()}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  onClick={() => onRestore(note.id)}
+                  title="Restore"
+                  aria-label={`Restore ${note.title}`}
+                >
+                  <ArchiveRestore className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 hover:bg-destructive/20 hover:text-destructive"
+                  onClick={() => trash.deleteForever([note.id])}
+                  title="Delete forever"
+                  aria-label={`Delete ${note.title} forever`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
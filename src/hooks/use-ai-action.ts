@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { buildMessages, type AIAction, type AIProvider } from '@/lib/ai';
+
+export interface AITarget {
+  noteId: string;
+  /** Range of the note content the action runs on. */
+  start: number;
+  end: number;
+  original: string;
+}
+
+export interface AIRun extends AITarget {
+  action: AIAction;
+  language?: string;
+  output: string;
+  status: 'streaming' | 'done' | 'stopped' | 'error';
+  error?: string;
+}
+
+/** Runs one AI action at a time, streaming the output into `run`. */
+export function useAIAction(provider: AIProvider) {
+  const [run, setRun] = useState<AIRun>();
+  const controllerRef = useRef<AbortController>();
+
+  const start = useCallback(async (action: AIAction, target: AITarget, language?: string) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    // Ignore updates from a run that has since been replaced or dismissed
+    const update = (changes: Partial<AIRun>) => {
+      if (controllerRef.current === controller) setRun(prev => prev && { ...prev, ...changes });
+    };
+
+    setRun({ ...target, action, language, output: '', status: 'streaming' });
+    let output = '';
+    try {
+      const messages = buildMessages(action, target.original, { language });
+      for await (const chunk of provider.stream({ messages, signal: controller.signal })) {
+        output += chunk;
+        update({ output });
+      }
+      update({ status: 'done' });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        update({ status: 'stopped' });
+      } else {
+        update({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }, [provider]);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const dismiss = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = undefined;
+    setRun(undefined);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { run, start, stop, dismiss };
+}
@@ -0,0 +1,134 @@
+import { useCallback, useMemo, useState, type RefObject } from 'react';
+import {
+  buildFindPattern,
+  findMatches,
+  replaceAll,
+  replacementFor,
+  type FindOptions,
+  type TextMatch,
+} from '@/lib/find-replace';
+import type { NoteEditorHandle } from '@/lib/editor';
+import { escapeRegExp } from '@/lib/utils';
+
+const DEFAULT_OPTIONS: FindOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+/**
+ * State for the in-note find bar. Replacements go through the editor so they
+ * reach the normal change handler and undo history.
+ */
+export function useFindReplace(
+  editorRef: RefObject<NoteEditorHandle>,
+  content: string,
+) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_OPTIONS);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  // Bumped on every open so the bar can refocus its input when already visible
+  const [openCount, setOpenCount] = useState(0);
+
+  const { pattern, error } = useMemo(() => {
+    if (!query) return { pattern: null, error: null };
+    try {
+      return { pattern: buildFindPattern(query, options), error: null };
+    } catch (e) {
+      return { pattern: null, error: (e as Error).message };
+    }
+  }, [query, options]);
+
+  const matches = useMemo<TextMatch[]>(
+    () => (pattern ? findMatches(content, pattern) : []),
+    [content, pattern]
+  );
+  const current = matches.length > 0 ? Math.min(currentIndex, matches.length - 1) : -1;
+
+  const reveal = useCallback((match: TextMatch | undefined) => {
+    if (match) editorRef.current?.select(match.start, match.end, { focus: false });
+  }, [editorRef]);
+
+  // Jump to the first match at or after the caret whenever the search changes
+  const resetToCaret = (found: TextMatch[]) => {
+    const caret = editorRef.current?.getSelection().start ?? 0;
+    const index = Math.max(0, found.findIndex(match => match.start >= caret));
+    setCurrentIndex(index);
+    reveal(found[index]);
+  };
+
+  const search = (nextQuery: string, nextOptions: FindOptions) => {
+    setQuery(nextQuery);
+    setOptions(nextOptions);
+    try {
+      resetToCaret(nextQuery ? findMatches(content, buildFindPattern(nextQuery, nextOptions)) : []);
+    } catch {
+      setCurrentIndex(0);
+    }
+  };
+
+  const open = (withReplace: boolean) => {
+    // Seed the query with a single-line selection, like most editors
+    const selection = editorRef.current?.getSelection();
+    const selected = selection ? content.slice(selection.start, selection.end) : '';
+    if (selected && !selected.includes('\n')) {
+      search(options.regex ? escapeRegExp(selected) : selected, options);
+    }
+    setShowReplace(withReplace);
+    setIsOpen(true);
+    setOpenCount(count => count + 1);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    editorRef.current?.focus();
+  };
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const index = (current + direction + matches.length) % matches.length;
+    setCurrentIndex(index);
+    reveal(matches[index]);
+  };
+
+  const replaceCurrent = () => {
+    const match = matches[current];
+    const editor = editorRef.current;
+    if (!match || !pattern || !editor) return;
+
+    editor.replaceRange(match.start, match.end, replacementFor(content, match, pattern, replacement, options));
+    // The replaced match disappears, so the same index now points at the next one
+    setCurrentIndex(current);
+  };
+
+  const replaceAllMatches = () => {
+    const editor = editorRef.current;
+    if (!pattern || matches.length === 0 || !editor) return;
+
+    // One change covering the whole note keeps replace-all a single undo step
+    editor.replaceRange(0, content.length, replaceAll(content, pattern, replacement, options));
+    setCurrentIndex(0);
+  };
+
+  return {
+    isOpen,
+    openCount,
+    showReplace,
+    setShowReplace,
+    query,
+    replacement,
+    setReplacement,
+    options,
+    error,
+    matches,
+    current,
+    open,
+    close,
+    search,
+    next: () => step(1),
+    previous: () => step(-1),
+    replaceCurrent,
+    replaceAllMatches,
+  };
+}
+
+export type FindReplaceState = ReturnType<typeof useFindReplace>;
@@ -0,0 +1,75 @@
+import { useCallback, useRef, useState } from 'react';
+import { canMoveFolder } from '@/lib/folders';
+import type { Folder, NoteStore, StoreChange } from '@/lib/storage';
+
+/**
+ * The notebook tree. Folders are stored together as one meta entry; notes
+ * point at their folder through `folderId`.
+ */
+export function useFolders(store: NoteStore, persist: (operation: Promise<void>) => void) {
+  const [folders, setFoldersState] = useState<Folder[]>([]);
+  // Latest list, so consecutive updates in one event build on each other
+  const foldersRef = useRef(folders);
+
+  const setFolders = useCallback((updated: Folder[], { save = true } = {}) => {
+    foldersRef.current = updated;
+    setFoldersState(updated);
+    if (save) persist(store.setMeta('folders', updated));
+  }, [store, persist]);
+
+  const load = useCallback((saved: Folder[] | undefined) => {
+    setFolders(saved ?? [], { save: false });
+  }, [setFolders]);
+
+  const createFolder = useCallback((name: string, parentId: string | null): Folder => {
+    const folder: Folder = { id: `folder-${Date.now()}`, name, parentId };
+    setFolders([...foldersRef.current, folder]);
+    return folder;
+  }, [setFolders]);
+
+  // Folders brought in by an import, kept as they are
+  const addFolders = useCallback((added: Folder[]) => {
+    setFolders([...foldersRef.current, ...added]);
+  }, [setFolders]);
+
+  const renameFolder = useCallback((folderId: string, name: string) => {
+    setFolders(foldersRef.current.map(folder => folder.id === folderId ? { ...folder, name } : folder));
+  }, [setFolders]);
+
+  // Returns false when the move would nest a folder inside itself
+  const moveFolder = useCallback((folderId: string, parentId: string | null): boolean => {
+    if (!canMoveFolder(foldersRef.current, folderId, parentId)) return false;
+    setFolders(foldersRef.current.map(folder => folder.id === folderId ? { ...folder, parentId } : folder));
+    return true;
+  }, [setFolders]);
+
+  // Subfolders move up to the deleted folder's parent; the caller does the same for its notes
+  const deleteFolder = useCallback((folderId: string): Folder | undefined => {
+    const deleted = foldersRef.current.find(folder => folder.id === folderId);
+    if (!deleted) return undefined;
+    setFolders(foldersRef.current
+      .filter(folder => folder.id !== folderId)
+      .map(folder => folder.parentId === folderId ? { ...folder, parentId: deleted.parentId } : folder));
+    return deleted;
+  }, [setFolders]);
+
+  // The folder tree as another window saved it
+  const applyRemote = useCallback((change: StoreChange) => {
+    if (change.type === 'meta' && change.key === 'folders') {
+      setFolders(change.value as Folder[], { save: false });
+    }
+  }, [setFolders]);
+
+  return {
+    folders,
+    load,
+    createFolder,
+    addFolders,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    applyRemote,
+  };
+}
+
+export type Folders = ReturnType<typeof useFolders>;
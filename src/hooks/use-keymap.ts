@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { COMMANDS, type CommandId } from '@/lib/commands';
+import {
+  comboFromEvent,
+  findConflicts,
+  hasCommandModifier,
+  loadKeymapOverrides,
+  matchShortcut,
+  normalizeShortcut,
+  resolveKeymap,
+  saveKeymapOverrides,
+  type KeymapOverrides,
+  type Shortcut,
+} from '@/lib/keymap';
+
+// How long the next key of a chord is waited for
+const CHORD_TIMEOUT = 1500;
+
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+/**
+ * Binds the command registry to the keyboard. Shortcuts come from the
+ * defaults in COMMANDS plus the user's saved overrides; `handlers` may change
+ * every render, the latest ones always run.
+ */
+export function useKeymap(handlers: Record<CommandId, () => void>) {
+  const [overrides, setOverrides] = useState<KeymapOverrides>(loadKeymapOverrides);
+  const keymap = useMemo(() => resolveKeymap(overrides), [overrides]);
+  const conflicts = useMemo(() => findConflicts(keymap), [keymap]);
+  const [pendingChord, setPendingChord] = useState<string[]>([]);
+
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const keymapRef = useRef(keymap);
+  keymapRef.current = keymap;
+
+  useEffect(() => {
+    let chord: string[] = [];
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const setChord = (combos: string[]) => {
+      // Most keys are not part of any shortcut; skip the re-render for them
+      if (combos.length === 0 && chord.length === 0) return;
+      chord = combos;
+      setPendingChord(combos);
+      clearTimeout(timeout);
+      if (combos.length > 0) timeout = setTimeout(() => setChord([]), CHORD_TIMEOUT);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = comboFromEvent(e);
+      if (!combo || e.defaultPrevented) return;
+      // Plain keys such as "?" are text while typing, unless they finish a chord
+      if (chord.length === 0 && !hasCommandModifier(combo) && isTextField(e.target)) return;
+      const inOtherTextField = isTextField(e.target) && !(e.target as HTMLElement).closest('[data-note-editor]');
+
+      let pressed = [...chord, combo];
+      let match = matchShortcut(keymapRef.current, pressed, inOtherTextField);
+      // A key that breaks a chord may still start a shortcut of its own
+      if (match.type === 'none' && chord.length > 0) {
+        pressed = [combo];
+        match = matchShortcut(keymapRef.current, pressed, inOtherTextField);
+      }
+      if (match.type === 'none') {
+        setChord([]);
+        return;
+      }
+
+      e.preventDefault();
+      if (match.type === 'pending') {
+        setChord(pressed);
+      } else {
+        setChord([]);
+        handlersRef.current[match.commandId]();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      clearTimeout(timeout);
+    };
+  }, []);
+
+  const updateOverrides = useCallback((update: (prev: KeymapOverrides) => KeymapOverrides) => {
+    setOverrides(prev => {
+      const updated = update(prev);
+      saveKeymapOverrides(updated);
+      return updated;
+    });
+  }, []);
+
+  // Replace a command's shortcuts; setting the defaults drops the override
+  const setShortcuts = useCallback((commandId: CommandId, shortcuts: Shortcut[]) => {
+    const normalized = [...new Set(shortcuts.map(normalizeShortcut))];
+    const defaults = COMMANDS.find(command => command.id === commandId)?.keys ?? [];
+    updateOverrides(prev => {
+      const { [commandId]: _previous, ...rest } = prev;
+      return normalized.join('\n') === defaults.join('\n') ? rest : { ...rest, [commandId]: normalized };
+    });
+  }, [updateOverrides]);
+
+  // Back to the default shortcuts, for one command or all of them
+  const resetShortcuts = useCallback((commandId?: CommandId) => {
+    updateOverrides(prev => {
+      if (!commandId) return {};
+      const { [commandId]: _previous, ...rest } = prev;
+      return rest;
+    });
+  }, [updateOverrides]);
+
+  return {
+    keymap,
+    overrides,
+    conflicts,
+    pendingChord,
+    setShortcuts,
+    resetShortcuts,
+  };
+}
+
+export type KeymapState = ReturnType<typeof useKeymap>;
@@ -0,0 +1,123 @@
+import { useCallback, useRef, useState } from 'react';
+import type { NoteStore } from '@/lib/storage';
+
+// How many closed tabs Ctrl+Shift+T can bring back
+const MAX_RECENTLY_CLOSED = 20;
+
+/**
+ * The ordered set of notes open as tabs. Notes that are not open stay in the
+ * library; closing a tab only hides the note. Pinned tabs always come first.
+ * The order and the pins are saved per window under the 'tab-order' and
+ * 'pinned-tabs' meta keys.
+ */
+export function useOpenTabs(store: NoteStore, persist: (operation: Promise<void>) => void) {
+  const [openNoteIds, setOpenNoteIdsState] = useState<string[]>([]);
+  const [pinnedNoteIds, setPinnedNoteIdsState] = useState<string[]>([]);
+  // Latest lists, so consecutive updates in one event build on each other
+  const openNoteIdsRef = useRef(openNoteIds);
+  const pinnedNoteIdsRef = useRef(pinnedNoteIds);
+  const recentlyClosedRef = useRef<{ noteId: string; index: number }[]>([]);
+
+  const setOpenNoteIds = useCallback((updated: string[], { save = true } = {}) => {
+    openNoteIdsRef.current = updated;
+    setOpenNoteIdsState(updated);
+    if (save) persist(store.setMeta('tab-order', updated));
+  }, [store, persist]);
+
+  const setPinnedNoteIds = useCallback((updated: string[], { save = true } = {}) => {
+    pinnedNoteIdsRef.current = updated;
+    setPinnedNoteIdsState(updated);
+    if (save) persist(store.setMeta('pinned-tabs', updated));
+  }, [store, persist]);
+
+  const load = useCallback((saved: string[], pinned: string[] = []) => {
+    const open = pinned.filter(id => saved.includes(id));
+    setPinnedNoteIds(open, { save: false });
+    setOpenNoteIds([...open, ...saved.filter(id => !open.includes(id))], { save: false });
+  }, [setOpenNoteIds, setPinnedNoteIds]);
+
+  // Opens a tab at `index` (the end by default), never among the pinned tabs;
+  // already open tabs stay where they are
+  const open = useCallback((noteId: string, index = openNoteIdsRef.current.length) => {
+    const current = openNoteIdsRef.current;
+    if (current.includes(noteId)) return;
+    const updated = [...current];
+    updated.splice(Math.max(pinnedNoteIdsRef.current.length, Math.min(index, current.length)), 0, noteId);
+    setOpenNoteIds(updated);
+  }, [setOpenNoteIds]);
+
+  // Removes a tab without remembering it (the note was trashed or deleted)
+  const remove = useCallback((noteId: string): string[] => {
+    const current = openNoteIdsRef.current;
+    if (!current.includes(noteId)) return current;
+    if (pinnedNoteIdsRef.current.includes(noteId)) {
+      setPinnedNoteIds(pinnedNoteIdsRef.current.filter(id => id !== noteId));
+    }
+    const updated = current.filter(id => id !== noteId);
+    setOpenNoteIds(updated);
+    return updated;
+  }, [setOpenNoteIds, setPinnedNoteIds]);
+
+  // Closes a tab so Ctrl+Shift+T can reopen it; returns the remaining tabs
+  const close = useCallback((noteId: string): string[] => {
+    const index = openNoteIdsRef.current.indexOf(noteId);
+    if (index === -1) return openNoteIdsRef.current;
+    recentlyClosedRef.current = [...recentlyClosedRef.current, { noteId, index }].slice(-MAX_RECENTLY_CLOSED);
+    return remove(noteId);
+  }, [remove]);
+
+  // Pinned tabs only move among themselves, unpinned ones only after them
+  const move = useCallback((from: number, to: number) => {
+    const pinnedCount = pinnedNoteIdsRef.current.length;
+    const updated = [...openNoteIdsRef.current];
+    const [moved] = updated.splice(from, 1);
+    const target = pinnedNoteIdsRef.current.includes(moved)
+      ? Math.min(to, pinnedCount - 1)
+      : Math.max(to, pinnedCount);
+    updated.splice(target, 0, moved);
+    setOpenNoteIds(updated);
+  }, [setOpenNoteIds]);
+
+  // Pins a tab (opening it if needed) after the other pinned tabs
+  const pin = useCallback((noteId: string) => {
+    const pinned = pinnedNoteIdsRef.current;
+    if (pinned.includes(noteId)) return;
+    const others = openNoteIdsRef.current.filter(id => id !== noteId);
+    setPinnedNoteIds([...pinned, noteId]);
+    setOpenNoteIds([...others.slice(0, pinned.length), noteId, ...others.slice(pinned.length)]);
+  }, [setOpenNoteIds, setPinnedNoteIds]);
+
+  // Unpins a tab, which becomes the first unpinned tab
+  const unpin = useCallback((noteId: string) => {
+    const pinned = pinnedNoteIdsRef.current.filter(id => id !== noteId);
+    if (pinned.length === pinnedNoteIdsRef.current.length) return;
+    const others = openNoteIdsRef.current.filter(id => id !== noteId);
+    setPinnedNoteIds(pinned);
+    setOpenNoteIds([...others.slice(0, pinned.length), noteId, ...others.slice(pinned.length)]);
+  }, [setOpenNoteIds, setPinnedNoteIds]);
+
+  // The most recently closed tab whose note still exists and is not open again
+  const takeRecentlyClosed = useCallback((exists: (noteId: string) => boolean) => {
+    const stack = recentlyClosedRef.current;
+    while (stack.length > 0) {
+      const entry = stack.pop();
+      if (entry && exists(entry.noteId) && !openNoteIdsRef.current.includes(entry.noteId)) return entry;
+    }
+    return undefined;
+  }, []);
+
+  return {
+    openNoteIds,
+    pinnedNoteIds,
+    load,
+    open,
+    close,
+    remove,
+    move,
+    pin,
+    unpin,
+    takeRecentlyClosed,
+  };
+}
+
+export type OpenTabs = ReturnType<typeof useOpenTabs>;
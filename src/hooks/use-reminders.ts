@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { openDueItems, reminderAt, type DueItem } from '@/lib/due-dates';
+import type { Note } from '@/lib/storage';
+
+export interface Reminder {
+  note: Note;
+  item: DueItem;
+  at: number;
+}
+
+// Overdue badges follow the clock at this resolution
+const CLOCK_TICK_MS = 60 * 1000;
+// setTimeout overflows past ~24.8 days; far-off reminders are rescheduled on a later tick anyway
+const MAX_TIMER_MS = 60 * 60 * 1000;
+// Every open window schedules the same reminders; the first to fire one marks it here
+const FIRED_KEY = 'notepad-fired-reminders';
+// Markers are dropped this long after their reminder, once no window can still be catching up
+const FIRED_MARKER_MS = 24 * 60 * 60 * 1000;
+
+type NotificationState = NotificationPermission | 'unsupported';
+
+const notificationState = (): NotificationState =>
+  ('Notification' in window ? Notification.permission : 'unsupported');
+
+// Claims a reminder for this window; false when another window already fired it
+function claimReminder(reminder: Reminder): boolean {
+  const id = `${reminder.note.id}:${reminder.item.line}:${reminder.at}`;
+  try {
+    const fired: Record<string, number> = JSON.parse(localStorage.getItem(FIRED_KEY) ?? '{}');
+    if (id in fired) return false;
+    const cutoff = Date.now() - FIRED_MARKER_MS;
+    const kept = Object.fromEntries(Object.entries(fired).filter(([, at]) => at > cutoff));
+    localStorage.setItem(FIRED_KEY, JSON.stringify({ ...kept, [id]: reminder.at }));
+  } catch {
+    // Without storage each window fires its own
+  }
+  return true;
+}
+
+// The constructor throws where only service workers may notify (Chrome on Android)
+function showNotification(reminder: Reminder, onClick: () => void) {
+  try {
+    const notification = new Notification(reminder.item.text || reminder.note.title, {
+      body: reminder.item.text ? reminder.note.title : 'Note due',
+      tag: `${reminder.note.id}:${reminder.item.line}`,
+    });
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+  } catch {
+    // The in-app alert still shows
+  }
+}
+
+interface RemindersOptions {
+  /** In-app alert for a reminder that just came due. */
+  onRemind: (reminder: Reminder) => void;
+  /** The user clicked a reminder's desktop notification. */
+  onOpen: (reminder: Reminder) => void;
+}
+
+/**
+ * Reminders for open tasks and notes with a due date, while the app is open.
+ * Each fires once, in one window, when its time passes; times already past when the app
+ * loads or the date is written show as overdue instead. Also keeps `now`
+ * current for due badges.
+ */
+export function useReminders(notes: Note[], { onRemind, onOpen }: RemindersOptions) {
+  const [now, setNow] = useState(Date.now);
+  const [permission, setPermission] = useState(notificationState);
+  const checkedUntilRef = useRef(Date.now());
+  const callbacksRef = useRef({ onRemind, onOpen });
+  callbacksRef.current = { onRemind, onOpen };
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const reminders = useMemo(() => notes
+    .flatMap(note => openDueItems(note).map((item): Reminder => ({ note, item, at: reminderAt(item.due) })))
+    .sort((a, b) => a.at - b.at), [notes]);
+
+  useEffect(() => {
+    const fireDue = () => {
+      const from = checkedUntilRef.current;
+      const to = Date.now();
+      checkedUntilRef.current = to;
+      reminders.filter(reminder => reminder.at > from && reminder.at <= to).forEach(reminder => {
+        if (!claimReminder(reminder)) return;
+        callbacksRef.current.onRemind(reminder);
+        // The toast is enough while the app has focus
+        if (notificationState() === 'granted' && !document.hasFocus()) {
+          showNotification(reminder, () => callbacksRef.current.onOpen(reminder));
+        }
+      });
+    };
+
+    fireDue();
+    const next = reminders.find(reminder => reminder.at > checkedUntilRef.current);
+    if (!next) return;
+    const timer = setTimeout(() => {
+      fireDue();
+      setNow(Date.now());
+    }, Math.min(next.at - Date.now(), MAX_TIMER_MS));
+    return () => clearTimeout(timer);
+  }, [reminders, now]);
+
+  // Browsers only ask for permission in response to a click
+  const enableNotifications = useCallback(async () => {
+    if (notificationState() === 'unsupported') return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return useMemo(() => ({ now, permission, enableNotifications }), [now, permission, enableNotifications]);
+}
+
+export type RemindersState = ReturnType<typeof useReminders>;
@@ -0,0 +1,64 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { expiredRevisions, revisionsForSave } from '@/lib/revisions';
+import type { Note, NoteStore, Revision } from '@/lib/storage';
+
+/**
+ * Throttled per-note snapshots taken as notes are saved. Writes are queued so
+ * snapshots of the same note never interleave.
+ */
+export function useRevisionHistory(store: NoteStore, onError: (error: unknown) => void) {
+  // Content as last written to the store, per note
+  const savedContentRef = useRef(new Map<string, string>());
+  // Newest revision per note, loaded lazily from the store
+  const latestRef = useRef(new Map<string, Revision | undefined>());
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const enqueue = useCallback((task: () => Promise<void>) => {
+    queueRef.current = queueRef.current.then(task).catch(onError);
+  }, [onError]);
+
+  // Register a note's stored content without snapshotting it (e.g. on load)
+  const remember = useCallback((note: Note) => {
+    savedContentRef.current.set(note.id, note.content);
+  }, []);
+
+  const record = useCallback((note: Note, { force = false } = {}) => {
+    const previousContent = savedContentRef.current.get(note.id);
+    savedContentRef.current.set(note.id, note.content);
+
+    enqueue(async () => {
+      const now = Date.now();
+      if (!latestRef.current.has(note.id)) {
+        const existing = await store.listRevisions(note.id);
+        latestRef.current.set(note.id, existing[existing.length - 1]);
+      }
+
+      const added = revisionsForSave(note, previousContent, latestRef.current.get(note.id), now, force);
+      if (added.length === 0) return;
+
+      for (const revision of added) {
+        await store.putRevision(revision);
+      }
+      latestRef.current.set(note.id, added[added.length - 1]);
+
+      const expired = expiredRevisions(await store.listRevisions(note.id), now);
+      if (expired.length > 0) await store.deleteRevisions(expired);
+    });
+  }, [store, enqueue]);
+
+  const list = useCallback((noteId: string) => store.listRevisions(noteId), [store]);
+
+  // Drop all history for a note that no longer exists
+  const forget = useCallback((noteId: string) => {
+    savedContentRef.current.delete(noteId);
+    latestRef.current.delete(noteId);
+    enqueue(async () => {
+      const revisions = await store.listRevisions(noteId);
+      await store.deleteRevisions(revisions.map(revision => revision.id));
+    });
+  }, [store, enqueue]);
+
+  return useMemo(() => ({ remember, record, list, forget }), [remember, record, list, forget]);
+}
+
+export type RevisionHistory = ReturnType<typeof useRevisionHistory>;
@@ -0,0 +1,83 @@
+import { useCallback, useRef, type RefObject } from 'react';
+import type { NoteEditorHandle } from '@/lib/editor';
+
+interface SourceBlock {
+  line: number;
+  top: number;
+}
+
+// Rendered blocks tagged by renderMarkdown({ sourceLines: true }), in document order
+function sourceBlocks(preview: HTMLElement): SourceBlock[] {
+  const previewTop = preview.getBoundingClientRect().top - preview.scrollTop;
+  return Array.from(preview.querySelectorAll<HTMLElement>('[data-source-line]')).map((el) => ({
+    line: Number(el.dataset.sourceLine),
+    top: el.getBoundingClientRect().top - previewTop,
+  }));
+}
+
+// Piecewise-linear map between two monotonic sequences
+function interpolate(value: number, from: number[], to: number[]): number {
+  if (from.length === 0) return 0;
+  if (value <= from[0]) return to[0];
+  for (let i = 1; i < from.length; i++) {
+    if (value < from[i]) {
+      const span = from[i] - from[i - 1];
+      const ratio = span > 0 ? (value - from[i - 1]) / span : 0;
+      return to[i - 1] + ratio * (to[i] - to[i - 1]);
+    }
+  }
+  return to[to.length - 1];
+}
+
+/**
+ * Keeps the editor and preview scrolled to the same source line. Returns
+ * scroll handlers for both panes; whichever pane the user scrolls leads.
+ */
+export function useScrollSync(
+  editorRef: RefObject<NoteEditorHandle>,
+  previewRef: RefObject<HTMLElement>,
+) {
+  // The pane currently being scrolled programmatically, to ignore its echo event
+  const followerRef = useRef<'editor' | 'preview' | null>(null);
+
+  // A scroll that leaves the position unchanged fires no event, so there is no
+  // echo to ignore and the flag would swallow the user's next real scroll
+  const follow = useCallback((pane: 'editor' | 'preview', position: () => number, scroll: () => void) => {
+    const before = position();
+    followerRef.current = pane;
+    scroll();
+    if (position() === before) followerRef.current = null;
+  }, []);
+
+  const onEditorScroll = useCallback(() => {
+    const editor = editorRef.current;
+    const preview = previewRef.current;
+    if (!editor || !preview) return;
+    if (followerRef.current === 'editor') {
+      followerRef.current = null;
+      return;
+    }
+
+    const blocks = sourceBlocks(preview);
+    follow('preview', () => preview.scrollTop, () => {
+      preview.scrollTop = interpolate(editor.topLine(), blocks.map(b => b.line), blocks.map(b => b.top));
+    });
+  }, [editorRef, previewRef, follow]);
+
+  const onPreviewScroll = useCallback(() => {
+    const editor = editorRef.current;
+    const preview = previewRef.current;
+    if (!editor || !preview) return;
+    if (followerRef.current === 'preview') {
+      followerRef.current = null;
+      return;
+    }
+
+    const blocks = sourceBlocks(preview);
+    follow('editor', editor.topLine, () => {
+      editor.scrollToLine(interpolate(preview.scrollTop, blocks.map(b => b.top), blocks.map(b => b.line)));
+    });
+  }, [editorRef, previewRef, follow]);
+
+  return { onEditorScroll, onPreviewScroll };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createSearchIndex } from '@/lib/search-index';
+import type { Note } from '@/lib/storage';
+
+/**
+ * Keeps a search index in step with `notes`. Only notes whose object identity
+ * changed since the last render are re-indexed. The index is updated in place,
+ * so `version` is bumped on every change for results that depend on it.
+ */
+export function useSearchIndex(notes: Note[]) {
+  const indexRef = useRef(createSearchIndex());
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const index = indexRef.current;
+    const present = new Set(notes.map(note => note.id));
+    let changed = false;
+    index.noteIds().forEach(id => {
+      if (!present.has(id)) {
+        index.remove(id);
+        changed = true;
+      }
+    });
+    notes.forEach(note => {
+      if (!index.has(note)) {
+        index.update(note);
+        changed = true;
+      }
+    });
+    if (changed) setVersion(v => v + 1);
+  }, [notes]);
+
+  return useMemo(() => ({ index: indexRef.current, version }), [version]);
+}
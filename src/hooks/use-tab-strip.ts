@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState, type RefObject } from 'react';
+
+// Tab widths in multi-row mode, where every tab has a fixed size so rows can
+// be laid out before rendering
+export const TAB_WIDTH = 176;
+export const PINNED_TAB_WIDTH = 56;
+const TAB_GAP = 4;
+
+// Share of the visible width moved by the scroll buttons
+const SCROLL_STEP = 0.8;
+
+/**
+ * Splits tabs into rows that fit `width`. Each row becomes its own drop
+ * target, since drag and drop only reorders along a single axis.
+ */
+export function wrapTabRows<T>(tabs: T[], isPinned: (tab: T) => boolean, width: number): T[][] {
+  const rows: T[][] = [];
+  let row: T[] = [];
+  let used = 0;
+  for (const tab of tabs) {
+    const tabWidth = isPinned(tab) ? PINNED_TAB_WIDTH : TAB_WIDTH;
+    if (row.length > 0 && used + TAB_GAP + tabWidth > width) {
+      rows.push(row);
+      row = [];
+      used = 0;
+    }
+    used += (row.length > 0 ? TAB_GAP : 0) + tabWidth;
+    row.push(tab);
+  }
+  if (row.length > 0 || rows.length === 0) rows.push(row);
+  return rows;
+}
+
+/**
+ * Overflow handling for the tab strip: whether there are hidden tabs on
+ * either side, scroll buttons, vertical wheel scrolling and keeping the
+ * active tab (marked with `data-tab-id`) in view.
+ */
+export function useTabStrip(scrollRef: RefObject<HTMLElement>, activeTabId: string | null) {
+  const [canScrollLeft, setCanScrollLeft] = useState(false);
+  const [canScrollRight, setCanScrollRight] = useState(false);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const strip = scrollRef.current;
+    if (!strip) return;
+
+    const update = () => {
+      setCanScrollLeft(strip.scrollLeft > 0);
+      setCanScrollRight(strip.scrollLeft + strip.clientWidth < strip.scrollWidth - 1);
+      setWidth(strip.clientWidth);
+    };
+
+    // A mouse wheel only scrolls vertically; turn that into horizontal movement
+    const onWheel = (e: WheelEvent) => {
+      if (e.deltaX !== 0 || e.deltaY === 0 || strip.scrollWidth <= strip.clientWidth) return;
+      e.preventDefault();
+      strip.scrollLeft += e.deltaY;
+    };
+
+    update();
+    strip.addEventListener('scroll', update, { passive: true });
+    strip.addEventListener('wheel', onWheel, { passive: false });
+    const observer = new ResizeObserver(update);
+    observer.observe(strip);
+    // Tabs come and go without resizing the strip itself
+    if (strip.firstElementChild) observer.observe(strip.firstElementChild);
+    return () => {
+      strip.removeEventListener('scroll', update);
+      strip.removeEventListener('wheel', onWheel);
+      observer.disconnect();
+    };
+  }, [scrollRef]);
+
+  useEffect(() => {
+    if (!activeTabId) return;
+    const tab = scrollRef.current?.querySelector(`[data-tab-id="${CSS.escape(activeTabId)}"]`);
+    tab?.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'smooth' });
+  }, [scrollRef, activeTabId]);
+
+  const scrollTabs = useCallback((direction: 'left' | 'right') => {
+    const strip = scrollRef.current;
+    if (!strip) return;
+    const distance = strip.clientWidth * SCROLL_STEP;
+    strip.scrollBy({ left: direction === 'left' ? -distance : distance, behavior: 'smooth' });
+  }, [scrollRef]);
+
+  return { canScrollLeft, canScrollRight, width, scrollTabs };
+}
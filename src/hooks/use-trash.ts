@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Note, NoteStore, StoreChange } from '@/lib/storage';
+
+export const DEFAULT_RETENTION_DAYS = 30;
+const DAY = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Closed notes stay in the store with `trashedAt` set until they are restored,
+ * deleted by hand or purged after the retention period. A retention of 0 keeps
+ * them forever.
+ */
+export function useTrash(
+  store: NoteStore,
+  persist: (operation: Promise<void>) => void,
+  onDeleted: (noteId: string) => void,
+) {
+  const [trash, setTrash] = useState<Note[]>([]);
+  const [retentionDays, setRetentionDaysState] = useState(DEFAULT_RETENTION_DAYS);
+
+  // Seed from the loaded store contents
+  const load = useCallback((trashed: Note[], savedRetention: number | undefined) => {
+    setTrash(trashed);
+    if (savedRetention !== undefined) setRetentionDaysState(savedRetention);
+  }, []);
+
+  const moveToTrash = useCallback((note: Note, index: number) => {
+    const trashed = { ...note, trashedAt: Date.now(), trashedFromIndex: index };
+    setTrash(prev => [...prev, trashed]);
+    persist(store.put(trashed));
+  }, [store, persist]);
+
+  // Removes a note from the trash and returns it as a live note
+  const takeFromTrash = useCallback((noteId: string): Note | undefined => {
+    const entry = trash.find(note => note.id === noteId);
+    if (!entry) return undefined;
+    const { trashedAt, trashedFromIndex, ...restored } = entry;
+    setTrash(prev => prev.filter(note => note.id !== noteId));
+    persist(store.put(restored));
+    return restored;
+  }, [trash, store, persist]);
+
+  const mostRecentlyTrashed = trash.reduce<Note | undefined>(
+    (latest, note) => (!latest || (note.trashedAt ?? 0) > (latest.trashedAt ?? 0) ? note : latest),
+    undefined
+  );
+
+  const deleteForever = useCallback((noteIds: string[]) => {
+    const ids = new Set(noteIds);
+    setTrash(prev => prev.filter(note => !ids.has(note.id)));
+    noteIds.forEach(id => {
+      persist(store.delete(id));
+      onDeleted(id);
+    });
+  }, [store, persist, onDeleted]);
+
+  const setRetentionDays = useCallback((days: number) => {
+    setRetentionDaysState(days);
+    persist(store.setMeta('trash-retention-days', days));
+  }, [store, persist]);
+
+  // Notes trashed, restored or purged elsewhere, and the retention setting
+  const applyRemote = useCallback((change: StoreChange) => {
+    if (change.type === 'put') {
+      setTrash(prev => {
+        const others = prev.filter(note => note.id !== change.note.id);
+        return change.note.trashedAt !== undefined ? [...others, change.note] : others;
+      });
+    } else if (change.type === 'delete') {
+      setTrash(prev => prev.filter(note => note.id !== change.id));
+    } else if (change.key === 'trash-retention-days') {
+      setRetentionDaysState(change.value as number);
+    }
+  }, []);
+
+  // Purge expired notes now and periodically while the app stays open
+  useEffect(() => {
+    if (retentionDays <= 0) return;
+    const purge = () => {
+      const cutoff = Date.now() - retentionDays * DAY;
+      const expired = trash.filter(note => (note.trashedAt ?? 0) < cutoff).map(note => note.id);
+      if (expired.length > 0) deleteForever(expired);
+    };
+    purge();
+    const interval = setInterval(purge, PURGE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [trash, retentionDays, deleteForever]);
+
+  return {
+    trash,
+    retentionDays,
+    setRetentionDays,
+    load,
+    moveToTrash,
+    takeFromTrash,
+    mostRecentlyTrashed,
+    deleteForever,
+    applyRemote,
+  };
+}
+
+export type Trash = ReturnType<typeof useTrash>;
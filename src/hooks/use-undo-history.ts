@@ -0,0 +1,35 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { createUndoHistory, recordEdit, redoEdit, undoEdit, type UndoHistory } from '@/lib/undo';
+
+/**
+ * Undo/redo per note for the whole session. The CodeMirror editor runs
+ * without its own history, since its view is recreated for every note shown:
+ * each transaction it reports through onChange is recorded here, as are
+ * changes applied to the note directly (revisions, other windows). The
+ * edit.undo/edit.redo commands and the browser's own undo come back here,
+ * and the result reaches the editor as a new `value`.
+ */
+export function useUndoHistory() {
+  const historiesRef = useRef(new Map<string, UndoHistory>());
+
+  const historyOf = useCallback((noteId: string) => {
+    let history = historiesRef.current.get(noteId);
+    if (!history) {
+      history = createUndoHistory();
+      historiesRef.current.set(noteId, history);
+    }
+    return history;
+  }, []);
+
+  const record = useCallback((noteId: string, before: string, after: string) => {
+    recordEdit(historyOf(noteId), before, after);
+  }, [historyOf]);
+
+  const undo = useCallback((noteId: string, current: string) => undoEdit(historyOf(noteId), current), [historyOf]);
+
+  const redo = useCallback((noteId: string, current: string) => redoEdit(historyOf(noteId), current), [historyOf]);
+
+  return useMemo(() => ({ record, undo, redo }), [record, undo, redo]);
+}
+
+export type UndoHistoryManager = ReturnType<typeof useUndoHistory>;
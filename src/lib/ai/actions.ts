@@ -0,0 +1,72 @@
+import type { ChatMessage } from './provider';
+
+export type AIActionId = 'summarize' | 'rewrite' | 'fix-grammar' | 'continue' | 'action-items' | 'translate';
+
+export interface AIAction {
+  id: AIActionId;
+  label: string;
+  /** How the output is combined with the text it was run on. */
+  apply: 'replace' | 'append';
+  instruction: (options: { language?: string }) => string;
+}
+
+const SYSTEM_PROMPT = 'You are a writing assistant inside a Markdown notepad. '
+  + 'Reply with the resulting text only, in Markdown, without preamble, explanations or code fences around the whole answer.';
+
+export const AI_ACTIONS: AIAction[] = [
+  {
+    id: 'summarize',
+    label: 'Summarize',
+    apply: 'append',
+    instruction: () => 'Summarize the following text in a few concise bullet points under a "## Summary" heading.',
+  },
+  {
+    id: 'rewrite',
+    label: 'Rewrite',
+    apply: 'replace',
+    instruction: () => 'Rewrite the following text to be clearer and more concise. Keep the meaning and the Markdown structure.',
+  },
+  {
+    id: 'fix-grammar',
+    label: 'Fix grammar',
+    apply: 'replace',
+    instruction: () => 'Fix spelling, grammar and punctuation in the following text. Change nothing else.',
+  },
+  {
+    id: 'continue',
+    label: 'Continue writing',
+    apply: 'append',
+    instruction: () => 'Continue writing the following text in the same style. Reply with the continuation only.',
+  },
+  {
+    id: 'action-items',
+    label: 'Extract action items',
+    apply: 'append',
+    instruction: () => 'List the action items in the following text as a Markdown task list ("- [ ] ...") under an "## Action items" heading.',
+  },
+  {
+    id: 'translate',
+    label: 'Translate',
+    apply: 'replace',
+    instruction: ({ language = 'English' }) => `Translate the following text into ${language}. Keep the Markdown formatting.`,
+  },
+];
+
+export const TRANSLATION_LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Japanese', 'Chinese'];
+
+export function buildMessages(action: AIAction, text: string, options: { language?: string } = {}): ChatMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: `${action.instruction(options)}\n\n---\n\n${text}` },
+  ];
+}
+
+/** The text that will replace the target once the output is accepted. */
+export function combineOutput(action: AIAction, target: string, output: string): string {
+  if (action.apply === 'replace') return output;
+  if (action.id === 'continue') {
+    // Continue on the same line unless the model started a new paragraph
+    return target + (target && !/\s$/.test(target) && !/^\s/.test(output) ? ' ' : '') + output;
+  }
+  return `${target.replace(/\s+$/, '')}\n\n${output.trim()}\n`;
+}
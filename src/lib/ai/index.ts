@@ -0,0 +1,4 @@
+export { AI_ACTIONS, TRANSLATION_LANGUAGES, buildMessages, combineOutput, type AIAction, type AIActionId } from './actions';
+export { createOpenAICompatibleProvider, type OpenAICompatibleSettings } from './openai-compatible';
+export { AIProviderError, type AIProvider, type ChatMessage, type CompletionRequest } from './provider';
+export { DEFAULT_AI_SETTINGS, loadAISettings, saveAISettings } from './settings';
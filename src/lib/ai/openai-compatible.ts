@@ -0,0 +1,76 @@
+import { AIProviderError, type AIProvider } from './provider';
+
+export interface OpenAICompatibleSettings {
+  /** Base URL including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Yields the `data:` payloads of a server-sent event stream
+async function* serverSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Chat completions against any server speaking the OpenAI HTTP API, such as
+ * llama.cpp's server, Ollama, LM Studio or vLLM.
+ */
+export function createOpenAICompatibleProvider(settings: OpenAICompatibleSettings): AIProvider {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: settings.model,
+    async *stream({ messages, signal }) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model: settings.model, messages, stream: true }),
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new AIProviderError(`Could not reach ${settings.baseUrl}. Is the server running?`);
+      }
+
+      if (!response.ok || !response.body) {
+        const detail = await response.text().catch(() => '');
+        throw new AIProviderError(
+          `The server answered ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+          response.status
+        );
+      }
+
+      for await (const data of serverSentEvents(response.body)) {
+        if (data === '[DONE]') return;
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          // Keep-alive comments and partial payloads carry no text
+        }
+      }
+    },
+  };
+}
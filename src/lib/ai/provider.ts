@@ -0,0 +1,22 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+}
+
+/** A text generation backend. Output is streamed as it is produced. */
+export interface AIProvider {
+  name: string;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export class AIProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
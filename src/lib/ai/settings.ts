@@ -0,0 +1,23 @@
+import type { OpenAICompatibleSettings } from './openai-compatible';
+
+const SETTINGS_KEY = 'notepad-ai-settings';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server uses http://localhost:8080/v1
+export const DEFAULT_AI_SETTINGS: OpenAICompatibleSettings = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  apiKey: '',
+};
+
+export function loadAISettings(): OpenAICompatibleSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(saved) } : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+}
+
+export function saveAISettings(settings: OpenAICompatibleSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
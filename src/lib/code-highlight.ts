@@ -0,0 +1,56 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import go from 'highlight.js/lib/languages/go';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import python from 'highlight.js/lib/languages/python';
+import rust from 'highlight.js/lib/languages/rust';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import yaml from 'highlight.js/lib/languages/yaml';
+import { escapeHtml } from '@/lib/utils';
+
+// Only the core plus these grammars are bundled; other fences stay plain text
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('go', go);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('rust', rust);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('yaml', yaml);
+hljs.registerAliases(['shell', 'console'], { languageName: 'bash' });
+
+export interface HighlightedCode {
+  /** Markup with `hljs-*` classes, or the escaped code when the language is unknown. */
+  html: string;
+  /** Display name such as "TypeScript"; the raw name for unsupported languages. */
+  label?: string;
+}
+
+export function highlightCode(code: string, language = ''): HighlightedCode {
+  const grammar = language ? hljs.getLanguage(language) : undefined;
+  if (!grammar) return { html: escapeHtml(code), label: language || undefined };
+  return {
+    html: hljs.highlight(code, { language, ignoreIllegals: true }).value,
+    label: grammar.name,
+  };
+}
+
+/**
+ * A fenced code block for the preview: highlighted code, a line-number gutter
+ * and a header with the language. The copy button is added by MarkdownPreview,
+ * since the sanitizer strips buttons from rendered notes.
+ */
+export function renderCodeBlock(code: string, info = ''): string {
+  const language = info.trim().split(/\s+/)[0].toLowerCase();
+  const { html, label } = highlightCode(code, language);
+  const lineCount = code.split('\n').length;
+  const lineNumbers = Array.from({ length: lineCount }, (_, i) => i + 1).join('\n');
+  return `<div class="code-block not-prose">`
+    + `<div class="code-block-header"><span class="code-block-language">${escapeHtml(label ?? 'Text')}</span></div>`
+    + `<pre><span class="code-block-line-numbers" aria-hidden="true">${lineNumbers}</span>`
+    + `<code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${html}</code></pre>`
+    + `</div>\n`;
+}
@@ -0,0 +1,73 @@
+type TabNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export type CommandId =
+  | 'note.new'
+  | 'note.save'
+  | 'edit.undo'
+  | 'edit.redo'
+  | 'edit.toggleTask'
+  | 'edit.setDueDate'
+  | 'tab.close'
+  | 'tab.reopen'
+  | 'tab.next'
+  | 'tab.previous'
+  | `tab.goto${TabNumber}`
+  | 'view.togglePreview'
+  | 'view.toggleSidebar'
+  | 'view.toggleTheme'
+  | 'view.toggleLineNumbers'
+  | 'view.toggleSoftWrap'
+  | 'view.tasks'
+  | 'view.agenda'
+  | 'search.notes'
+  | 'search.find'
+  | 'search.replace'
+  | 'help.shortcuts';
+
+export interface CommandDefinition {
+  id: CommandId;
+  title: string;
+  group: 'Notes' | 'Edit' | 'Tabs' | 'View' | 'Search' | 'Help';
+  /** Default shortcuts; see Shortcut in keymap.ts. */
+  keys: string[];
+  /** Editor commands leave other text fields (rename, find…) their own handling of the keys. */
+  editorOnly?: boolean;
+}
+
+/**
+ * Every action that can be bound to a key. Handlers live with the state they
+ * act on (see Notepad); this list is what the keymap and cheat sheet show.
+ */
+export const COMMANDS: CommandDefinition[] = [
+  { id: 'note.new', title: 'New note', group: 'Notes', keys: ['Ctrl+T'] },
+  { id: 'note.save', title: 'Save', group: 'Notes', keys: ['Ctrl+S'] },
+  { id: 'edit.undo', title: 'Undo', group: 'Edit', keys: ['Ctrl+Z'], editorOnly: true },
+  { id: 'edit.redo', title: 'Redo', group: 'Edit', keys: ['Ctrl+Shift+Z', 'Ctrl+Y'], editorOnly: true },
+  { id: 'edit.toggleTask', title: 'Toggle task checkbox', group: 'Edit', keys: ['Ctrl+Enter'], editorOnly: true },
+  { id: 'edit.setDueDate', title: 'Set due date', group: 'Edit', keys: [] },
+  { id: 'tab.close', title: 'Close tab', group: 'Tabs', keys: ['Ctrl+W'] },
+  { id: 'tab.reopen', title: 'Reopen closed tab', group: 'Tabs', keys: ['Ctrl+Shift+T'] },
+  { id: 'tab.next', title: 'Next tab', group: 'Tabs', keys: ['Ctrl+]'] },
+  { id: 'tab.previous', title: 'Previous tab', group: 'Tabs', keys: ['Ctrl+['] },
+  ...([1, 2, 3, 4, 5, 6, 7, 8, 9] as const).map((n): CommandDefinition => ({
+    id: `tab.goto${n}`,
+    title: n === 9 ? 'Go to last tab' : `Go to tab ${n}`,
+    group: 'Tabs',
+    keys: [`Ctrl+${n}`],
+  })),
+  { id: 'view.togglePreview', title: 'Toggle preview', group: 'View', keys: ['Ctrl+Shift+E'] },
+  { id: 'view.toggleSidebar', title: 'Toggle notebooks sidebar', group: 'View', keys: ['Ctrl+B'] },
+  { id: 'view.toggleTheme', title: 'Toggle dark mode', group: 'View', keys: ['Ctrl+Shift+L'] },
+  { id: 'view.toggleLineNumbers', title: 'Toggle line numbers', group: 'View', keys: [] },
+  { id: 'view.toggleSoftWrap', title: 'Toggle soft wrap', group: 'View', keys: ['Alt+Z'] },
+  { id: 'view.tasks', title: 'All tasks', group: 'View', keys: [] },
+  { id: 'view.agenda', title: 'Agenda', group: 'View', keys: [] },
+  { id: 'search.notes', title: 'Search notes', group: 'Search', keys: ['Ctrl+K'] },
+  { id: 'search.find', title: 'Find in note', group: 'Search', keys: ['Ctrl+F'] },
+  { id: 'search.replace', title: 'Find and replace', group: 'Search', keys: ['Ctrl+H'] },
+  { id: 'help.shortcuts', title: 'Keyboard shortcuts', group: 'Help', keys: ['?'] },
+];
+
+export function commandTitle(id: CommandId): string {
+  return COMMANDS.find(command => command.id === id)?.title ?? id;
+}
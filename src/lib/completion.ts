@@ -0,0 +1,51 @@
+/**
+ * Inline autocompletion in the editor. A source reacts to the text right
+ * before the caret (e.g. "#pro" or "[[Meet") and proposes replacements for it.
+ */
+export interface CompletionSource {
+  /** Matches the text before the caret; the last capture group is the query. */
+  trigger: RegExp;
+  options: (query: string) => string[];
+  /** Text that replaces the query when an option is chosen. */
+  insert: (option: string) => string;
+  /** Optional label for an option in the list (defaults to the option). */
+  label?: (option: string) => string;
+}
+
+export interface Completion {
+  source: CompletionSource;
+  query: string;
+  /** Range of the query in the text; the trigger characters stay untouched. */
+  from: number;
+  to: number;
+  options: string[];
+}
+
+// Only the current line matters, which keeps the trigger patterns cheap
+export function findCompletion(text: string, caret: number, sources: CompletionSource[], limit = 8): Completion | null {
+  const lineStart = text.lastIndexOf('\n', caret - 1) + 1;
+  const before = text.slice(lineStart, caret);
+  for (const source of sources) {
+    const match = source.trigger.exec(before);
+    if (!match) continue;
+    const query = match[match.length - 1] ?? '';
+    const options = source.options(query).slice(0, limit);
+    if (options.length === 0) continue;
+    return { source, query, from: caret - query.length, to: caret, options };
+  }
+  return null;
+}
+
+/** Options starting with the query first, then ones containing it, case-insensitively. */
+export function rankOptions(candidates: string[], query: string): string[] {
+  const needle = query.toLowerCase();
+  const prefix: string[] = [];
+  const contains: string[] = [];
+  for (const candidate of candidates) {
+    const haystack = candidate.toLowerCase();
+    if (haystack === needle) continue;
+    if (haystack.startsWith(needle)) prefix.push(candidate);
+    else if (haystack.includes(needle)) contains.push(candidate);
+  }
+  return [...prefix, ...contains];
+}
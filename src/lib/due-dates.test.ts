@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { dueStatus, dueToken, findDueItems, formatDue, setDueDate } from '@/lib/due-dates';
+
+// Local times, so the tests hold in any time zone
+const at = (date: string, time = '12:00') => new Date(`${date}T${time}:00`).getTime();
+
+describe('findDueItems', () => {
+  it('finds note and task dates with their text', () => {
+    const items = findDueItems('# Plan @due(2026-10-20)\n- [ ] call @due(2026-10-21 9:30) back\n- [x] done @due(2026-10-19)');
+    expect(items.map(({ line, due, task, text }) => ({ line, due, task, text }))).toEqual([
+      { line: 0, due: { date: '2026-10-20', time: undefined }, task: undefined, text: 'Plan' },
+      { line: 1, due: { date: '2026-10-21', time: '09:30' }, task: { checked: false }, text: 'call back' },
+      { line: 2, due: { date: '2026-10-19', time: undefined }, task: { checked: true }, text: 'done' },
+    ]);
+  });
+
+  it('ignores dates inside code and dates that do not exist', () => {
+    const content = '`@due(2026-10-20)`\n```\n@due(2026-10-21)\n```\n@due(2026-02-31)\n@due(2026-10-22 25:00)';
+    expect(findDueItems(content)).toEqual([]);
+  });
+});
+
+describe('setDueDate', () => {
+  const due = { date: '2026-11-01' };
+
+  it('adds a note date on its own line at the top', () => {
+    expect(setDueDate('# Title\ntext', undefined, due)).toBe('@due(2026-11-01)\n# Title\ntext');
+  });
+
+  it('replaces the note date where it is', () => {
+    expect(setDueDate('# Title @due(2026-10-20)\ntext', undefined, { date: '2026-11-01', time: '08:00' }))
+      .toBe('# Title @due(2026-11-01 08:00)\ntext');
+  });
+
+  it('clears the note date, dropping a line that only held it', () => {
+    expect(setDueDate('@due(2026-10-20)\n# Title', undefined, null)).toBe('# Title');
+    expect(setDueDate('# Title @due(2026-10-20) soon', undefined, null)).toBe('# Title soon');
+  });
+
+  it('sets and clears a task date', () => {
+    const dated = setDueDate('- [ ] call', 0, due);
+    expect(dated).toBe('- [ ] call @due(2026-11-01)');
+    expect(setDueDate(dated, 0, null)).toBe('- [ ] call');
+  });
+
+  it('leaves an @due(…) inside code alone', () => {
+    expect(setDueDate('- [ ] write `@due(2026-10-20)` docs', 0, due))
+      .toBe('- [ ] write `@due(2026-10-20)` docs @due(2026-11-01)');
+    expect(setDueDate('- [ ] write `@due(2026-10-20)` docs', 0, null))
+      .toBe('- [ ] write `@due(2026-10-20)` docs');
+    expect(setDueDate('`@due(2026-10-20)`\ntext', undefined, due)).toBe('@due(2026-11-01)\n`@due(2026-10-20)`\ntext');
+  });
+
+  it('writes the token that findDueItems reads back', () => {
+    const content = setDueDate('- [ ] task', 0, { date: '2026-11-01', time: '14:30' });
+    expect(content).toContain(dueToken({ date: '2026-11-01', time: '14:30' }));
+    expect(findDueItems(content)[0].due).toEqual({ date: '2026-11-01', time: '14:30' });
+  });
+});
+
+describe('dueStatus', () => {
+  const now = at('2026-10-18', '10:00');
+
+  it('is overdue once the time, or the whole day, has passed', () => {
+    expect(dueStatus({ date: '2026-10-18', time: '09:00' }, now)).toBe('overdue');
+    expect(dueStatus({ date: '2026-10-17' }, now)).toBe('overdue');
+    expect(dueStatus({ date: '2026-10-18' }, now)).toBe('today');
+    expect(dueStatus({ date: '2026-10-18', time: '11:00' }, now)).toBe('today');
+  });
+
+  it('is soon within a week and later after that', () => {
+    expect(dueStatus({ date: '2026-10-19' }, now)).toBe('soon');
+    expect(dueStatus({ date: '2026-10-25' }, now)).toBe('soon');
+    expect(dueStatus({ date: '2026-10-26' }, now)).toBe('later');
+  });
+
+  it('formats relative to today', () => {
+    expect(formatDue({ date: '2026-10-18', time: '14:30' }, now)).toBe('Today 14:30');
+    expect(formatDue({ date: '2026-10-19' }, now)).toBe('Tomorrow');
+    expect(formatDue({ date: '2027-01-05' }, now)).toBe('5 Jan 2027');
+  });
+});
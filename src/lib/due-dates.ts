@@ -0,0 +1,178 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { maskCode } from '@/lib/markdown-code';
+import { cachedPerNote } from '@/lib/note-cache';
+import type { Note } from '@/lib/storage';
+import { findTasks } from '@/lib/tasks';
+
+export interface DueDate {
+  /** Local date, "2026-10-20". */
+  date: string;
+  /** Local time, "14:30"; unset for a whole day. */
+  time?: string;
+}
+
+export interface DueItem {
+  /** 0-based line of the @due(…) in the note. */
+  line: number;
+  /** Offsets of the whole line, for jumping to it. */
+  start: number;
+  end: number;
+  due: DueDate;
+  /** Set when the line is a task; a date on any other line is the note's own. */
+  task?: { checked: boolean };
+  /** The line without its markers and the @due(…). */
+  text: string;
+}
+
+export type DueStatus = 'overdue' | 'today' | 'soon' | 'later';
+
+// Dates this many days ahead count as upcoming
+export const UPCOMING_DAYS = 7;
+// Whole-day dates remind at this hour
+const DAY_REMINDER_HOUR = 9;
+
+// @due(2026-10-20) or @due(2026-10-20 14:30)
+const DUE = /@due\((\d{4}-\d{2}-\d{2})(?:[ T](\d{1,2}:\d{2}))?\)/;
+const DUE_AT_START = new RegExp(`^${DUE.source}`);
+const LINE_MARKERS = /^[ \t]*(?:>[ \t]*)*(?:#{1,6}[ \t]+|(?:[-*+]|\d{1,9}[.)])[ \t]+)?/;
+
+/** Start of the due date (or its time) in local time; NaN when invalid. */
+export function dueAt({ date, time }: DueDate): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = (time ?? '0:00').split(':').map(Number);
+  const at = new Date(year, month - 1, day, hours, minutes);
+  // Reject dates the Date constructor rolls over, such as 2026-02-31
+  if (at.getMonth() !== month - 1 || at.getDate() !== day || hours > 23 || minutes > 59) return NaN;
+  return at.getTime();
+}
+
+/** When the item becomes overdue: its time, or the end of its day. */
+export function dueDeadline(due: DueDate): number {
+  return due.time ? dueAt(due) : addDays(dueAt(due), 1).getTime();
+}
+
+export function reminderAt(due: DueDate): number {
+  return due.time ? dueAt(due) : dueAt(due) + DAY_REMINDER_HOUR * 60 * 60 * 1000;
+}
+
+export function dueStatus(due: DueDate, now: number): DueStatus {
+  if (dueDeadline(due) <= now) return 'overdue';
+  const days = differenceInCalendarDays(dueAt(due), now);
+  if (days <= 0) return 'today';
+  return days <= UPCOMING_DAYS ? 'soon' : 'later';
+}
+
+/** "Today 14:30", "Tomorrow", "Tue 20 Oct", or "20 Oct 2027" further out. */
+export function formatDue(due: DueDate, now: number): string {
+  const at = dueAt(due);
+  const days = differenceInCalendarDays(at, now);
+  const day = days === 0 ? 'Today'
+    : days === 1 ? 'Tomorrow'
+    : days === -1 ? 'Yesterday'
+    : new Date(at).getFullYear() !== new Date(now).getFullYear() ? format(at, 'd MMM yyyy')
+    : Math.abs(days) < UPCOMING_DAYS ? format(at, 'EEE d MMM')
+    : format(at, 'd MMM');
+  return due.time ? `${day} ${due.time}` : day;
+}
+
+// The date of a DUE match, unless it names no real day or time
+function dueFromMatch(match: RegExpExecArray | null): DueDate | undefined {
+  if (!match) return undefined;
+  const due = { date: match[1], time: match[2]?.padStart(5, '0') };
+  return Number.isNaN(dueAt(due)) ? undefined : due;
+}
+
+/** A valid @due(…) at the start of `text`, for the Markdown renderer. */
+export function matchDueToken(text: string): { raw: string; due: DueDate } | undefined {
+  const match = DUE_AT_START.exec(text);
+  const due = dueFromMatch(match);
+  return due && { raw: match![0], due };
+}
+
+/** The @due(…) text for a date. */
+export function dueToken(due: DueDate): string {
+  return `@due(${due.date}${due.time ? ` ${due.time}` : ''})`;
+}
+
+export function dueFromDate(date: Date, time?: string): DueDate {
+  return { date: format(date, 'yyyy-MM-dd'), time: time || undefined };
+}
+
+/** Every valid @due(…) in a note, one per line, ignoring code. */
+export function findDueItems(content: string): DueItem[] {
+  const tasks = new Map(findTasks(content).map(task => [task.line, task]));
+  const masked = maskCode(content).split('\n');
+  const items: DueItem[] = [];
+  let start = 0;
+  content.split('\n').forEach((text, line) => {
+    const due = dueFromMatch(DUE.exec(masked[line]));
+    if (due) {
+      const task = tasks.get(line);
+      const label = task ? task.text : text.replace(LINE_MARKERS, '');
+      items.push({
+        line,
+        start,
+        end: start + text.length,
+        due,
+        task: task && { checked: task.checked },
+        text: label.replace(DUE, '').replace(/\s+/g, ' ').trim(),
+      });
+    }
+    start += text.length + 1;
+  });
+  return items;
+}
+
+export const noteDueItems = cachedPerNote(note => findDueItems(note.content));
+
+/** Due items still to do: open tasks and the note's own date. */
+export function openDueItems(note: Note): DueItem[] {
+  return noteDueItems(note).filter(item => !item.task?.checked);
+}
+
+/** The date on the first non-task line, which applies to the whole note. */
+export function noteDueItem(note: Note): DueItem | undefined {
+  return noteDueItems(note).find(item => !item.task);
+}
+
+/** How many of a note's open items are overdue, and how many are due in the next days. */
+export function dueSummary(note: Note, now: number): { overdue: number; upcoming: number } {
+  const statuses = openDueItems(note).map(item => dueStatus(item.due, now));
+  return {
+    overdue: statuses.filter(status => status === 'overdue').length,
+    upcoming: statuses.filter(status => status === 'today' || status === 'soon').length,
+  };
+}
+
+/**
+ * Sets or clears (`due` null) the date on `line`, or the note's own date when
+ * `line` is undefined. A new note date goes on its own line at the top.
+ */
+export function setDueDate(content: string, line: number | undefined, due: DueDate | null): string {
+  const lines = content.split('\n');
+  const target = line ?? findDueItems(content).find(item => !item.task)?.line;
+  if (target === undefined) return due ? `${dueToken(due)}\n${content}` : content;
+  if (target >= lines.length) return content;
+
+  const text = lines[target];
+  // Matched on the masked line, so an @due(…) inside code is left as it is
+  const match = DUE.exec(maskCode(content).split('\n')[target]);
+  if (due) {
+    lines[target] = match
+      ? text.slice(0, match.index) + dueToken(due) + text.slice(match.index + match[0].length)
+      : `${text.trimEnd()}${text.trim() ? ' ' : ''}${dueToken(due)}`;
+  } else if (match) {
+    const before = text.slice(0, match.index).replace(/[ \t]+$/, '');
+    const after = text.slice(match.index + match[0].length);
+    const cleared = before ? before + after : after.replace(/^[ \t]+/, '');
+    // A line that only held the date goes away with it
+    if (cleared.trim()) lines[target] = cleared;
+    else lines.splice(target, 1);
+  }
+  return lines.join('\n');
+}
+
+/** Midnight of the item's day, for grouping an agenda by day. */
+export function dueDay(due: DueDate): number {
+  return startOfDay(dueAt(due)).getTime();
+}
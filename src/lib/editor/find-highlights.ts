@@ -0,0 +1,27 @@
+import { StateEffect, StateField, type Range } from '@codemirror/state';
+import { Decoration, EditorView, type DecorationSet } from '@codemirror/view';
+import type { TextMatch } from '@/lib/find-replace';
+
+const findMatch = Decoration.mark({ class: 'cm-find-match' });
+const currentFindMatch = Decoration.mark({ class: 'cm-find-match cm-find-match-current' });
+
+/** Replaces the highlighted find matches; `current` is an index into `matches`. */
+export const setFindHighlights = StateEffect.define<{ matches: TextMatch[]; current: number }>();
+
+// Find matches drawn over the text; edits move them until the next search
+export const findHighlights = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(highlights, tr) {
+    highlights = highlights.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (!effect.is(setFindHighlights)) continue;
+      const { matches, current } = effect.value;
+      const ranges: Range<Decoration>[] = matches
+        .filter(match => match.end <= tr.state.doc.length && match.start < match.end)
+        .map((match, i) => (i === current ? currentFindMatch : findMatch).range(match.start, match.end));
+      highlights = Decoration.set(ranges, true);
+    }
+    return highlights;
+  },
+  provide: field => EditorView.decorations.from(field),
+});
@@ -0,0 +1,16 @@
+/**
+ * What the rest of the app may do with the note editor, independent of the
+ * editing component behind it. Offsets are character offsets into the note.
+ */
+export interface NoteEditorHandle {
+  focus(): void;
+  /** The main selection; other cursors are ignored. */
+  getSelection(): { start: number; end: number };
+  /** Selects a range and scrolls it into view. */
+  select(start: number, end: number, options?: { focus?: boolean }): void;
+  /** Replaces a range as if typed, so the change reaches the editor's onChange. */
+  replaceRange(start: number, end: number, text: string): void;
+  /** The source line at the top of the viewport, 0-based with a fraction for partly scrolled lines. */
+  topLine(): number;
+  scrollToLine(line: number): void;
+}
@@ -0,0 +1,4 @@
+export { findHighlights, setFindHighlights } from './find-highlights';
+export type { NoteEditorHandle } from './handle';
+export { DEFAULT_EDITOR_SETTINGS, loadEditorSettings, saveEditorSettings, type EditorSettings } from './settings';
+export { editorTheme, markdownHighlightStyle } from './theme';
@@ -0,0 +1,24 @@
+const SETTINGS_KEY = 'notepad-editor-settings';
+
+export interface EditorSettings {
+  lineNumbers: boolean;
+  softWrap: boolean;
+}
+
+export const DEFAULT_EDITOR_SETTINGS: EditorSettings = {
+  lineNumbers: false,
+  softWrap: true,
+};
+
+export function loadEditorSettings(): EditorSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_EDITOR_SETTINGS, ...JSON.parse(saved) } : DEFAULT_EDITOR_SETTINGS;
+  } catch {
+    return DEFAULT_EDITOR_SETTINGS;
+  }
+}
+
+export function saveEditorSettings(settings: EditorSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,58 @@
+import { HighlightStyle } from '@codemirror/language';
+import { EditorView } from '@codemirror/view';
+import { tags } from '@lezer/highlight';
+
+// Colors are the design tokens from index.css, so toggling .dark restyles the editor
+export const editorTheme = EditorView.theme({
+  '&': {
+    height: '100%',
+    fontSize: '0.875rem',
+    color: 'hsl(var(--foreground))',
+    backgroundColor: 'transparent',
+  },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': {
+    fontFamily: 'Consolas, Menlo, Monaco, "Liberation Mono", "Courier New", monospace',
+    lineHeight: '1.6',
+    letterSpacing: '0.02em',
+  },
+  '.cm-content': { padding: '1.5rem 0', caretColor: 'hsl(var(--accent))' },
+  '.cm-line': { padding: '0 1.5rem' },
+  '.cm-cursor, .cm-dropCursor': { borderLeftColor: 'hsl(var(--accent))', borderLeftWidth: '2px' },
+  '&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': {
+    backgroundColor: 'hsl(var(--accent) / 0.25)',
+  },
+  '.cm-activeLine': { backgroundColor: 'hsl(var(--accent) / 0.06)' },
+  '.cm-gutters': {
+    backgroundColor: 'hsl(var(--card))',
+    color: 'hsl(var(--muted-foreground) / 0.7)',
+    borderRight: '1px solid hsl(var(--border))',
+  },
+  '.cm-lineNumbers .cm-gutterElement': { padding: '0 0.5rem 0 1rem' },
+  '.cm-activeLineGutter': { backgroundColor: 'hsl(var(--accent) / 0.1)', color: 'hsl(var(--foreground))' },
+  '&.cm-focused .cm-matchingBracket': {
+    backgroundColor: 'hsl(var(--accent) / 0.2)',
+    outline: '1px solid hsl(var(--accent) / 0.6)',
+  },
+  '&.cm-focused .cm-nonmatchingBracket': { backgroundColor: 'hsl(var(--destructive) / 0.25)' },
+  '.cm-placeholder': { color: 'hsl(var(--muted-foreground))' },
+  '.cm-find-match': { backgroundColor: 'hsl(var(--accent) / 0.25)', borderRadius: '2px' },
+  '.cm-find-match-current': {
+    backgroundColor: 'hsl(var(--accent) / 0.6)',
+    outline: '1px solid hsl(var(--accent))',
+  },
+});
+
+export const markdownHighlightStyle = HighlightStyle.define([
+  { tag: tags.heading, fontWeight: '700', color: 'hsl(var(--primary))' },
+  { tag: tags.strong, fontWeight: '700' },
+  { tag: tags.emphasis, fontStyle: 'italic' },
+  { tag: tags.strikethrough, textDecoration: 'line-through' },
+  { tag: [tags.link, tags.url], color: 'hsl(var(--accent))' },
+  { tag: tags.monospace, backgroundColor: 'hsl(var(--muted))', borderRadius: '3px' },
+  { tag: tags.quote, fontStyle: 'italic', color: 'hsl(var(--muted-foreground))' },
+  // Markup characters: # * _ > - ` and list markers
+  { tag: [tags.processingInstruction, tags.contentSeparator, tags.list], color: 'hsl(var(--muted-foreground))' },
+  { tag: tags.labelName, color: 'hsl(var(--accent))' },
+  { tag: tags.comment, color: 'hsl(var(--muted-foreground))' },
+]);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { exportNotesZip } from '@/lib/export';
+import { importSources } from '@/lib/import';
+import type { Folder, Note } from '@/lib/storage';
+
+const folders: Folder[] = [
+  { id: 'folder-1', name: 'Work', parentId: null },
+  { id: 'folder-2', name: 'Projects', parentId: 'folder-1' },
+];
+const notes: Note[] = [
+  { id: 'a', title: 'Plan', content: '# Plan', lastModified: 1, folderId: 'folder-2', tags: ['todo', 'q4'] },
+  { id: 'b', title: 'Loose', content: 'text', lastModified: 2 },
+];
+
+const importArchive = async (blob: Blob, existing: Note[], existingFolders: Folder[]) =>
+  importSources([{ path: 'notes.zip', file: blob }], existing, existingFolders);
+
+describe('exportNotesZip and importSources', () => {
+  it('round-trips folders and tags', async () => {
+    const report = await importArchive(await exportNotesZip(notes, folders), [], []);
+    expect(report.imported.map(entry => entry.note)).toEqual([
+      { id: 'a', title: 'Plan', content: '# Plan', lastModified: 1, folderId: 'folder-2', tags: ['todo', 'q4'] },
+      { id: 'b', title: 'Loose', content: 'text', lastModified: 2 },
+    ].map(note => expect.objectContaining(note)));
+    expect(report.imported[1].note.folderId).toBeUndefined();
+    expect(report.folders).toEqual(folders);
+  });
+
+  it('only adds folders the library does not have yet', async () => {
+    const blob = await exportNotesZip(notes, folders);
+    const report = await importArchive(blob, [], [folders[0]]);
+    expect(report.folders).toEqual([folders[1]]);
+  });
+
+  it('moves folders whose parent is missing to the top level', async () => {
+    const report = await importArchive(await exportNotesZip(notes, [folders[1]]), [], []);
+    expect(report.folders).toEqual([{ ...folders[1], parentId: null }]);
+  });
+});
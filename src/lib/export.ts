@@ -0,0 +1,180 @@
+import JSZip from 'jszip';
+import { renderMarkdown } from '@/lib/markdown';
+import { sanitizeHtml } from '@/lib/sanitize-html';
+import type { Folder, Note } from '@/lib/storage';
+import { escapeHtml } from '@/lib/utils';
+
+export type ExportFormat = 'md' | 'txt' | 'html';
+
+export const NOTE_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'txt', label: 'Plain text (.txt)' },
+  { format: 'html', label: 'Web page (.html)' },
+];
+
+export const MANIFEST_FILE = 'manifest.json';
+export const MANIFEST_FORMAT = 'smart-notepad';
+
+export interface ManifestEntry {
+  id: string;
+  title: string;
+  lastModified: number;
+  folderId?: string;
+  tags?: string[];
+  /** Path of the note's Markdown file inside the archive. */
+  file: string;
+}
+
+export interface ExportManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: 1;
+  exportedAt: number;
+  /** Open tabs in tab order, then the notes not open as tabs. */
+  notes: ManifestEntry[];
+  /** The folder tree the notes' folderIds point into; absent in older exports. */
+  folders?: Folder[];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown;charset=utf-8',
+  txt: 'text/plain;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+};
+
+/** A filesystem-safe, lowercase name for a note title. */
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return slug || 'untitled';
+}
+
+/** Slugs for each title, suffixed (-2, -3, ...) where they would collide. */
+export function uniqueSlugs(titles: string[]): string[] {
+  const used = new Set<string>();
+  return titles.map(title => {
+    const base = slugify(title);
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+    return slug;
+  });
+}
+
+// Theme colours are read from the live CSS variables so the page matches the app
+function themeColors() {
+  const style = getComputedStyle(document.documentElement);
+  const color = (name: string) => `hsl(${style.getPropertyValue(`--${name}`).trim()})`;
+  return {
+    background: color('card'),
+    foreground: color('foreground'),
+    muted: color('muted'),
+    mutedForeground: color('muted-foreground'),
+    border: color('border'),
+    accent: color('accent'),
+    codeBackground: color('code-background'),
+    codeForeground: color('code-foreground'),
+    codeKeyword: color('code-keyword'),
+    codeString: color('code-string'),
+    codeComment: color('code-comment'),
+    codeNumber: color('code-number'),
+    codeFunction: color('code-function'),
+    codeType: color('code-type'),
+  };
+}
+
+/** A self-contained HTML page showing the note as it appears in the preview. */
+export function noteToHtmlDocument(note: Note): string {
+  const colors = themeColors();
+  const body = sanitizeHtml(renderMarkdown(note.content));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(note.title)}</title>
+<style>
+  body { margin: 0; background: ${colors.background}; color: ${colors.foreground}; font: 16px/1.7 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 46rem; margin: 0 auto; padding: 3rem 1.5rem; }
+  a { color: ${colors.accent}; }
+  h1, h2, h3, h4 { line-height: 1.25; }
+  code, pre { font-family: Consolas, Menlo, Monaco, "Liberation Mono", monospace; font-size: 0.9em; }
+  code { background: ${colors.muted}; padding: 0.1em 0.3em; border-radius: 4px; }
+  pre { background: ${colors.muted}; padding: 1rem; border-radius: 8px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  .code-block { margin: 1rem 0; border: 1px solid ${colors.border}; border-radius: 8px; overflow: hidden; background: ${colors.codeBackground}; color: ${colors.codeForeground}; }
+  .code-block-header { padding: 0.25rem 0.75rem; border-bottom: 1px solid ${colors.border}; font-size: 0.75rem; color: ${colors.mutedForeground}; }
+  .code-block pre { display: flex; margin: 0; padding: 0; border-radius: 0; background: none; }
+  .code-block-line-numbers { padding: 1rem 0.75rem; border-right: 1px solid ${colors.border}; text-align: right; color: ${colors.mutedForeground}; user-select: none; white-space: pre; }
+  .code-block code { padding: 1rem; white-space: pre; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-doctag { color: ${colors.codeKeyword}; }
+  .hljs-string, .hljs-regexp { color: ${colors.codeString}; }
+  .hljs-comment, .hljs-quote, .hljs-meta { color: ${colors.codeComment}; }
+  .hljs-number, .hljs-literal, .hljs-attr, .hljs-attribute, .hljs-variable, .hljs-template-variable, .hljs-property { color: ${colors.codeNumber}; }
+  .hljs-title, .hljs-section { color: ${colors.codeFunction}; }
+  .hljs-type, .hljs-built_in, .hljs-title.class_, .hljs-params, .hljs-symbol { color: ${colors.codeType}; }
+  blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid ${colors.border}; color: ${colors.mutedForeground}; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid ${colors.border}; padding: 0.4rem 0.7rem; }
+  hr { border: none; border-top: 1px solid ${colors.border}; }
+  img { max-width: 100%; }
+  li:has(> input[type="checkbox"]) { list-style: none; }
+</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+export function exportNote(note: Note, format: ExportFormat): Blob {
+  const content = format === 'html' ? noteToHtmlDocument(note) : note.content;
+  return new Blob([content], { type: MIME_TYPES[format] });
+}
+
+export function downloadNote(note: Note, format: ExportFormat) {
+  downloadBlob(exportNote(note, format), `${slugify(note.title)}.${format}`);
+}
+
+/** All notes as Markdown files plus a manifest for lossless re-import. */
+export async function exportNotesZip(notes: Note[], folders: Folder[] = []): Promise<Blob> {
+  const zip = new JSZip();
+  const width = String(notes.length).length;
+  const slugs = uniqueSlugs(notes.map(note => note.title));
+
+  const entries = notes.map((note, index): ManifestEntry => {
+    // The numeric prefix keeps the manifest order in file listings
+    const file = `${String(index + 1).padStart(width, '0')}-${slugs[index]}.md`;
+    zip.file(file, note.content, { date: new Date(note.lastModified) });
+    return { id: note.id, title: note.title, lastModified: note.lastModified, folderId: note.folderId, tags: note.tags, file };
+  });
+
+  const manifest: ExportManifest = {
+    format: MANIFEST_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    notes: entries,
+    folders,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the object URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
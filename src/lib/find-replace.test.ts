@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { buildFindPattern, findMatches, replaceAll, replacementFor, type FindOptions } from '@/lib/find-replace';
+
+const regex: FindOptions = { caseSensitive: true, wholeWord: false, regex: true };
+const literal: FindOptions = { caseSensitive: true, wholeWord: false, regex: false };
+
+describe('replaceAll', () => {
+  it('replaces the same matches find reports, skipping empty ones', () => {
+    const pattern = buildFindPattern('a*', regex);
+    expect(findMatches('baac', pattern)).toEqual([{ start: 1, end: 3 }]);
+    expect(replaceAll('baac', pattern, 'X', regex)).toBe('bXc');
+  });
+
+  it('agrees with replacing the matches one at a time', () => {
+    const text = 'x1 y22 z333';
+    const pattern = buildFindPattern('(\\w)(\\d+)', regex);
+    const oneByOne = findMatches(text, pattern).reduceRight(
+      (result, match) => result.slice(0, match.start) + replacementFor(text, match, pattern, '$2$1', regex) + result.slice(match.end),
+      text
+    );
+    expect(replaceAll(text, pattern, '$2$1', regex)).toBe(oneByOne);
+    expect(oneByOne).toBe('1x 22y 333z');
+  });
+
+  it.each([
+    ['$1-$2', '(a)(b)'],
+    ['$10', '(a)(b)'],
+    ['$01$00$0', '(a)(b)'],
+    ['$3', '(a)(b)'],
+    ['$11', '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)(k)'],
+    ['$12', '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)(k)'],
+    ['$$1 $& [$`] [$\']', '(a)b'],
+    ['$<x>$<y>', '(?<x>a)b'],
+    ['$<x>$1', '(a)b'],
+  ])('expands %j like String.prototype.replace for /%s/', (replacement, source) => {
+    const text = 'zabcdefghijkz';
+    const pattern = buildFindPattern(source, regex);
+    expect(replaceAll(text, pattern, replacement, regex)).toBe(text.replace(pattern, replacement));
+  });
+
+  it('inserts the replacement literally outside regex mode', () => {
+    expect(replaceAll('a.b.c', buildFindPattern('.', literal), '$&$1', literal)).toBe('a$&$1b$&$1c');
+  });
+});
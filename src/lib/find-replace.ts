@@ -0,0 +1,83 @@
+import { escapeRegExp } from '@/lib/utils';
+
+export interface FindOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+/** Builds the global search pattern, or throws a SyntaxError for an invalid regex. */
+export function buildFindPattern(query: string, options: FindOptions): RegExp {
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+}
+
+// Non-empty matches only: an empty match has nothing to select or highlight
+export function findMatches(text: string, pattern: RegExp): TextMatch[] {
+  const matches: TextMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length > 0) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return matches;
+}
+
+// Expands $$, $&, $`, $', $1..$99 and $<name> the same way String.prototype.replace does
+function expandReplacement(match: RegExpExecArray, replacement: string): string {
+  const groupCount = match.length - 1;
+  return replacement.replace(/\$(?:([$&`'])|(\d\d?)|<([^>]*)>)/g, (token, symbol?: string, digits?: string, name?: string) => {
+    if (symbol === '$') return '$';
+    if (symbol === '&') return match[0];
+    if (symbol === '`') return match.input.slice(0, match.index);
+    if (symbol === "'") return match.input.slice(match.index + match[0].length);
+    if (name !== undefined) {
+      // Without named groups "$<" is literal and the rest is expanded as usual
+      return match.groups ? match.groups[name] ?? '' : `$<${expandReplacement(match, name)}>`;
+    }
+    // $NN beyond the group count falls back to $N followed by a literal digit
+    let group = Number(digits);
+    let rest = '';
+    if (digits.length === 2 && (group < 1 || group > groupCount)) {
+      group = Number(digits[0]);
+      rest = digits[1];
+    }
+    return group >= 1 && group <= groupCount ? (match[group] ?? '') + rest : token;
+  });
+}
+
+/**
+ * The text that replaces a single match. In regex mode the replacement may
+ * reference capture groups; otherwise it is inserted literally.
+ */
+export function replacementFor(
+  text: string,
+  match: TextMatch,
+  pattern: RegExp,
+  replacement: string,
+  options: FindOptions,
+): string {
+  if (!options.regex) return replacement;
+  // Re-run the pattern anchored at the match so lookarounds see the full text
+  const sticky = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+  sticky.lastIndex = match.start;
+  const result = sticky.exec(text);
+  return result ? expandReplacement(result, replacement) : replacement;
+}
+
+/** Replaces every match findMatches reports, each as replacementFor would. */
+export function replaceAll(text: string, pattern: RegExp, replacement: string, options: FindOptions): string {
+  let result = '';
+  let end = 0;
+  for (const match of findMatches(text, pattern)) {
+    result += text.slice(end, match.start) + replacementFor(text, match, pattern, replacement, options);
+    end = match.end;
+  }
+  return result + text.slice(end);
+}
@@ -0,0 +1,58 @@
+import type { Folder, Note } from '@/lib/storage';
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+
+export function childFolders(folders: Folder[], parentId: string | null): Folder[] {
+  return folders.filter(folder => folder.parentId === parentId).sort(byName);
+}
+
+// Notes whose folder no longer exists are shown at the top level
+export function notesInFolder(notes: Note[], folders: Folder[], folderId: string | null): Note[] {
+  const known = new Set(folders.map(folder => folder.id));
+  return notes
+    .filter(note => (note.folderId && known.has(note.folderId) ? note.folderId : null) === folderId)
+    .sort((a, b) => byName({ name: a.title }, { name: b.title }));
+}
+
+/** The folder and everything nested below it. */
+export function descendantFolderIds(folders: Folder[], folderId: string): Set<string> {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// A folder cannot be moved into itself or one of its own subfolders
+export function canMoveFolder(folders: Folder[], folderId: string, parentId: string | null): boolean {
+  return parentId === null || !descendantFolderIds(folders, folderId).has(parentId);
+}
+
+/** Names from the top level down to the folder, e.g. ["Work", "Projects"]. */
+export function folderPath(folders: Folder[], folderId: string): string[] {
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = folders.find(folder => folder.id === folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = folders.find(folder => folder.id === current?.parentId);
+  }
+  return path;
+}
+
+// Every folder with its full path, in tree order, for "Move to" pickers
+export function flattenFolders(folders: Folder[], parentId: string | null = null, depth = 0): { folder: Folder; depth: number }[] {
+  return childFolders(folders, parentId).flatMap(folder => [
+    { folder, depth },
+    ...flattenFolders(folders, folder.id, depth + 1),
+  ]);
+}
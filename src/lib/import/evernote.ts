@@ -0,0 +1,93 @@
+import type { ImportedNote } from './types';
+
+// ENEX timestamps look like 20201231T235959Z
+function parseEnexDate(value: string | null | undefined): number {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value?.trim() ?? '');
+  if (!match) return Date.now();
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi, s);
+}
+
+const BLOCK_TAGS = new Set(['div', 'p', 'section', 'article', 'table', 'tr', 'blockquote']);
+
+// Converts the small subset of ENML/HTML that Evernote produces into Markdown
+function enmlToMarkdown(node: Node, listDepth = 0): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent ?? '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.localName.toLowerCase();
+  const children = (depth = listDepth) =>
+    Array.from(element.childNodes).map(child => enmlToMarkdown(child, depth)).join('');
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      return `\n\n${'#'.repeat(Number(tag[1]))} ${children().trim()}\n\n`;
+    case 'b': case 'strong':
+      return `**${children()}**`;
+    case 'i': case 'em':
+      return `*${children()}*`;
+    case 's': case 'strike': case 'del':
+      return `~~${children()}~~`;
+    case 'code':
+      return `\`${children()}\``;
+    case 'pre':
+      return `\n\n\`\`\`\n${element.textContent ?? ''}\n\`\`\`\n\n`;
+    case 'a': {
+      const href = element.getAttribute('href');
+      return href ? `[${children()}](${href})` : children();
+    }
+    case 'en-todo':
+      // Parsed as HTML, <en-todo/> is not self-closing and swallows the item text
+      return `${element.getAttribute('checked') === 'true' ? '[x] ' : '[ ] '}${children()}`;
+    case 'en-media':
+      return '*[attachment]*';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'ul': case 'ol':
+      return `\n${children(listDepth + 1)}\n`;
+    case 'li': {
+      const ordered = element.parentElement?.localName.toLowerCase() === 'ol';
+      const marker = ordered ? '1.' : '-';
+      return `${'  '.repeat(Math.max(0, listDepth - 1))}${marker} ${children().trim()}\n`;
+    }
+    case 'td': case 'th':
+      return `${children().trim()} | `;
+    default: {
+      const text = children();
+      return BLOCK_TAGS.has(tag) ? `\n${text}\n` : text;
+    }
+  }
+}
+
+// Checklist items become task list items: "[ ] foo" at a line start gets a "- "
+function tidy(markdown: string): string {
+  return markdown
+    .split('\n')
+    .map(line => line.replace(/\s+$/, '').replace(/^(\s*)(\[[ x]\] )/, '$1- $2'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function parseEnex(xml: string): ImportedNote[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Not a valid ENEX file');
+  }
+
+  return Array.from(doc.getElementsByTagName('note')).map(note => {
+    const field = (name: string) => note.getElementsByTagName(name)[0]?.textContent ?? '';
+    const enml = new DOMParser().parseFromString(field('content'), 'text/html');
+    const body = enml.querySelector('en-note') ?? enml.body;
+    return {
+      title: field('title').trim() || 'Untitled',
+      content: tidy(enmlToMarkdown(body)),
+      lastModified: parseEnexDate(field('updated') || field('created')),
+    };
+  });
+}
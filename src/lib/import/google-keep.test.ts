@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { isKeepNote, parseKeepNote } from './google-keep';
+
+describe('parseKeepNote', () => {
+  it('keeps labels as tags', () => {
+    const data = {
+      title: 'Groceries',
+      textContent: 'milk',
+      userEditedTimestampUsec: 1_700_000_000_000_000,
+      labels: [{ name: 'Home' }, { name: 'Weekly Shop' }, { name: 'home' }],
+    };
+    expect(isKeepNote(data)).toBe(true);
+    expect(parseKeepNote(data)).toEqual({
+      title: 'Groceries',
+      content: 'milk',
+      lastModified: 1_700_000_000_000,
+      tags: ['home', 'weekly-shop'],
+    });
+  });
+
+  it('turns list notes into tasks and leaves tags unset without labels', () => {
+    const parsed = parseKeepNote({
+      listContent: [{ text: 'a', isChecked: true }, { text: 'b', isChecked: false }],
+      userEditedTimestampUsec: 1_000,
+    });
+    expect(parsed).toEqual({ title: 'a', content: '- [x] a\n- [ ] b', lastModified: 1 });
+  });
+
+  it('skips trashed notes', () => {
+    expect(parseKeepNote({ textContent: 'x', isTrashed: true })).toEqual({ skipped: 'In the Keep trash' });
+  });
+});
@@ -0,0 +1,35 @@
+import { normalizeTag } from '@/lib/tags';
+import { firstLineTitle } from './text';
+import type { ImportedNote } from './types';
+
+// Shape of one note in a Google Takeout "Keep" folder (one JSON file per note)
+interface KeepNote {
+  title?: string;
+  textContent?: string;
+  listContent?: { text: string; isChecked: boolean }[];
+  isTrashed?: boolean;
+  userEditedTimestampUsec?: number;
+  labels?: { name: string }[];
+}
+
+export function isKeepNote(data: unknown): data is KeepNote {
+  if (!data || typeof data !== 'object') return false;
+  const note = data as KeepNote;
+  return ('textContent' in note || Array.isArray(note.listContent)) && 'userEditedTimestampUsec' in note;
+}
+
+export function parseKeepNote(data: KeepNote): ImportedNote | { skipped: string } {
+  if (data.isTrashed) return { skipped: 'In the Keep trash' };
+
+  const content = data.listContent
+    ? data.listContent.map(item => `- [${item.isChecked ? 'x' : ' '}] ${item.text}`).join('\n')
+    : data.textContent ?? '';
+  // Keep labels become tags
+  const tags = [...new Set((data.labels ?? []).map(label => normalizeTag(label.name ?? '')).filter(Boolean))];
+  return {
+    title: data.title?.trim() || firstLineTitle(content) || 'Untitled',
+    content,
+    lastModified: data.userEditedTimestampUsec ? Math.floor(data.userEditedTimestampUsec / 1000) : Date.now(),
+    ...(tags.length > 0 && { tags }),
+  };
+}
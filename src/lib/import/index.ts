@@ -0,0 +1,172 @@
+import JSZip from 'jszip';
+import { MANIFEST_FILE, MANIFEST_FORMAT, type ExportManifest } from '@/lib/export';
+import type { Folder, Note } from '@/lib/storage';
+import { parseEnex } from './evernote';
+import { isKeepNote, parseKeepNote } from './google-keep';
+import { isSimplenoteExport, parseSimplenoteExport } from './simplenote';
+import { basename, parseTextFile, stripExtension } from './text';
+import type { ImportReport, ImportSource, ParseResult } from './types';
+
+export type { ImportReport, ImportSource } from './types';
+export { hasFiles, sourcesFromDataTransfer, sourcesFromFileList } from './sources';
+
+/** File types offered in the file picker. */
+export const IMPORT_ACCEPT = '.md,.markdown,.txt,.json,.enex,.zip';
+
+const TEXT_EXTENSIONS = new Set(['md', 'markdown', 'txt']);
+// Files that are expected alongside notes in exports and not worth reporting
+const IGNORED_FILES = /(^|\/)(\.DS_Store|Thumbs\.db|__MACOSX\/.*)$/;
+
+const extensionOf = (path: string) => /\.([^./]+)$/.exec(path)?.[1]?.toLowerCase() ?? '';
+const lastModifiedOf = (source: ImportSource) => source.file.lastModified ?? Date.now();
+
+function isManifest(data: unknown): data is ExportManifest {
+  return !!data && typeof data === 'object' && (data as ExportManifest).format === MANIFEST_FORMAT;
+}
+
+async function parseJson(source: ImportSource): Promise<ParseResult> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await source.file.text());
+  } catch {
+    return { imported: [], skipped: [{ source: source.path, reason: 'Invalid JSON' }] };
+  }
+
+  if (isKeepNote(data)) {
+    const parsed = parseKeepNote(data);
+    return 'skipped' in parsed
+      ? { imported: [], skipped: [{ source: source.path, reason: parsed.skipped }] }
+      : { imported: [{ source: source.path, note: parsed }], skipped: [] };
+  }
+  if (isSimplenoteExport(data)) {
+    const { notes, trashed } = parseSimplenoteExport(data);
+    return {
+      imported: notes.map(note => ({ source: source.path, note })),
+      skipped: trashed > 0
+        ? [{ source: source.path, reason: `${trashed} ${trashed === 1 ? 'note' : 'notes'} in the Simplenote trash` }]
+        : [],
+    };
+  }
+  return { imported: [], skipped: [{ source: source.path, reason: 'Unrecognized JSON format' }] };
+}
+
+// Our own export: the manifest restores ids, titles, timestamps, order, folders and tags
+async function parseExportArchive(zip: JSZip, manifest: ExportManifest, archive: string): Promise<ParseResult> {
+  const result: ParseResult = { imported: [], skipped: [], folders: Array.isArray(manifest.folders) ? manifest.folders : [] };
+  for (const entry of manifest.notes) {
+    const source = `${archive}/${entry.file}`;
+    const file = zip.file(entry.file);
+    if (!file) {
+      result.skipped.push({ source, reason: 'Listed in the manifest but missing' });
+      continue;
+    }
+    result.imported.push({
+      source,
+      note: {
+        id: entry.id,
+        title: entry.title,
+        content: await file.async('string'),
+        lastModified: entry.lastModified,
+        folderId: entry.folderId,
+        tags: entry.tags,
+      },
+    });
+  }
+  return result;
+}
+
+async function parseZip(source: ImportSource): Promise<ParseResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(source.file);
+  } catch {
+    return { imported: [], skipped: [{ source: source.path, reason: 'Could not read archive' }] };
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (manifestFile) {
+    try {
+      const manifest = JSON.parse(await manifestFile.async('string'));
+      if (isManifest(manifest)) return parseExportArchive(zip, manifest, source.path);
+    } catch {
+      // Not ours: fall through and import the files one by one
+    }
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  const inner = await Promise.all(entries.map(async (entry): Promise<ImportSource> => ({
+    path: `${source.path}/${entry.name}`,
+    file: Object.assign(await entry.async('blob'), { lastModified: entry.date.getTime() }),
+  })));
+  return parseSources(inner);
+}
+
+async function parseSource(source: ImportSource, siblings: Set<string>): Promise<ParseResult> {
+  const extension = extensionOf(source.path);
+
+  if (TEXT_EXTENSIONS.has(extension)) {
+    const note = parseTextFile(source.path, await source.file.text(), lastModifiedOf(source));
+    return { imported: [{ source: source.path, note }], skipped: [] };
+  }
+  switch (extension) {
+    case 'json':
+      return parseJson(source);
+    case 'zip':
+      return parseZip(source);
+    case 'enex':
+      try {
+        const notes = parseEnex(await source.file.text());
+        return { imported: notes.map(note => ({ source: source.path, note })), skipped: [] };
+      } catch (error) {
+        return { imported: [], skipped: [{ source: source.path, reason: (error as Error).message }] };
+      }
+    case 'html':
+      // Google Takeout writes an .html rendering next to every Keep .json
+      if (siblings.has(`${stripExtension(source.path)}.json`)) return { imported: [], skipped: [] };
+      break;
+  }
+  return { imported: [], skipped: [{ source: source.path, reason: 'Unsupported file type' }] };
+}
+
+async function parseSources(sources: ImportSource[]): Promise<ParseResult> {
+  const relevant = sources.filter(source => !IGNORED_FILES.test(source.path) && !basename(source.path).startsWith('.'));
+  const paths = new Set(relevant.map(source => source.path));
+  const results = await Promise.all(relevant.map(source => parseSource(source, paths)));
+  return {
+    imported: results.flatMap(result => result.imported),
+    skipped: results.flatMap(result => result.skipped),
+    folders: results.flatMap(result => result.folders ?? []),
+  };
+}
+
+/**
+ * Parses dropped or picked files into notes. Ids from an export manifest are
+ * kept unless another note already uses them; identical notes are skipped.
+ * Manifest folders are matched by id, so a re-imported export files its notes
+ * back into the folders that still exist and brings back the ones that don't.
+ */
+export async function importSources(sources: ImportSource[], existing: Note[], existingFolders: Folder[] = []): Promise<ImportReport> {
+  const { imported, skipped, folders = [] } = await parseSources(sources);
+  const byId = new Map(existing.map(note => [note.id, note]));
+  const base = Date.now();
+  const report: ImportReport = { imported: [], skipped: [...skipped], folders: [] };
+
+  const folderIds = new Set(existingFolders.map(folder => folder.id));
+  const added = folders.filter(folder => !folderIds.has(folder.id) && folderIds.add(folder.id));
+  // A parent missing from both the library and the archive would hide the folder
+  report.folders = added.map(folder =>
+    folder.parentId && !folderIds.has(folder.parentId) ? { ...folder, parentId: null } : folder);
+
+  imported.forEach(({ source, note }, index) => {
+    const current = note.id ? byId.get(note.id) : undefined;
+    if (current && current.content === note.content && current.title === note.title) {
+      report.skipped.push({ source, reason: 'Already in your notes' });
+      return;
+    }
+    const id = note.id && !current ? note.id : `${base}-${index}`;
+    const created: Note = { ...note, id };
+    byId.set(id, created);
+    report.imported.push({ source, note: created });
+  });
+  return report;
+}
@@ -0,0 +1,26 @@
+import { firstLineTitle } from './text';
+import type { ImportedNote } from './types';
+
+// Simplenote's "Export notes" JSON
+interface SimplenoteExport {
+  activeNotes: { id: string; content: string; lastModified?: string; creationDate?: string }[];
+  trashedNotes?: unknown[];
+}
+
+export function isSimplenoteExport(data: unknown): data is SimplenoteExport {
+  return !!data && typeof data === 'object' && Array.isArray((data as SimplenoteExport).activeNotes);
+}
+
+export function parseSimplenoteExport(data: SimplenoteExport): { notes: ImportedNote[]; trashed: number } {
+  const notes = data.activeNotes.map(note => {
+    const content = (note.content ?? '').replace(/\r\n?/g, '\n');
+    const modified = Date.parse(note.lastModified ?? note.creationDate ?? '');
+    return {
+      // Simplenote has no separate title: the first line is the title
+      title: firstLineTitle(content) ?? 'Untitled',
+      content,
+      lastModified: Number.isNaN(modified) ? Date.now() : modified,
+    };
+  });
+  return { notes, trashed: data.trashedNotes?.length ?? 0 };
+}
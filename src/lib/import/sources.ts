@@ -0,0 +1,53 @@
+import type { ImportSource } from './types';
+
+function isFileEntry(entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile;
+}
+
+function isDirectoryEntry(entry: FileSystemEntry): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory;
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<ImportSource[]> {
+  if (isFileEntry(entry)) {
+    const file = await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+    return [{ path: entry.fullPath.replace(/^\//, ''), file }];
+  }
+  if (isDirectoryEntry(entry)) {
+    const reader = entry.createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty list
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+}
+
+/** Files (including the contents of dropped folders) from a drop event. */
+export async function sourcesFromDataTransfer(data: DataTransfer): Promise<ImportSource[]> {
+  // Entries must be taken synchronously: the DataTransfer is emptied after the event
+  const entries = Array.from(data.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(data.files).map(file => ({ path: file.name, file }));
+  }
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+}
+
+/** Files from an <input type="file">, keeping folder paths when a directory was picked. */
+export function sourcesFromFileList(files: FileList): ImportSource[] {
+  return Array.from(files).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+}
+
+export function hasFiles(data: DataTransfer | null): boolean {
+  return !!data && Array.from(data.types).includes('Files');
+}
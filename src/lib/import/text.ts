@@ -0,0 +1,40 @@
+import type { ImportedNote } from './types';
+
+const HEADING = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+
+export function basename(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+export function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+/** The first Markdown heading within the opening lines of a note, if any. */
+export function firstHeading(content: string): string | undefined {
+  for (const line of content.split('\n', 10)) {
+    const heading = HEADING.exec(line)?.[1];
+    if (heading) return heading;
+  }
+  return undefined;
+}
+
+// Title from the first line of text, as Simplenote and Keep list notes do
+export function firstLineTitle(content: string): string | undefined {
+  const line = content.split('\n').find(l => l.trim());
+  // Drop heading and list/task markers
+  return line?.replace(/^\s*(#+|[-*+](\s+\[[ xX]\])?)\s+/, '').trim().slice(0, 100) || undefined;
+}
+
+export function titleFromFilename(path: string): string {
+  return stripExtension(basename(path)).replace(/[-_]+/g, ' ').trim() || 'Untitled';
+}
+
+export function parseTextFile(path: string, content: string, lastModified: number): ImportedNote {
+  const normalized = content.replace(/\r\n?/g, '\n');
+  return {
+    title: firstHeading(normalized) ?? titleFromFilename(path),
+    content: normalized,
+    lastModified,
+  };
+}
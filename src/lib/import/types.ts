@@ -0,0 +1,35 @@
+import type { Folder, Note } from '@/lib/storage';
+
+// A file to import; `path` keeps folder structure for reporting
+export interface ImportSource {
+  path: string;
+  file: Blob & { lastModified?: number };
+}
+
+// A parsed note before it is given a final id. `id` is set when the source
+// carries one (our own manifest) and should be kept if it is free.
+export type ImportedNote = Omit<Note, 'id'> & { id?: string };
+
+export interface ImportedEntry {
+  source: string;
+  note: ImportedNote;
+}
+
+export interface SkippedEntry {
+  source: string;
+  reason: string;
+}
+
+export interface ParseResult {
+  imported: ImportedEntry[];
+  skipped: SkippedEntry[];
+  /** Folders listed in our own export manifest. */
+  folders?: Folder[];
+}
+
+export interface ImportReport {
+  imported: { source: string; note: Note }[];
+  skipped: SkippedEntry[];
+  /** Folders the imported notes are filed in that are not in the library yet. */
+  folders: Folder[];
+}
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  comboFromEvent,
+  loadKeymapOverrides,
+  matchShortcut,
+  normalizeShortcut,
+  resolveKeymap,
+  saveKeymapOverrides,
+} from '@/lib/keymap';
+
+const press = (key: string, modifiers: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) =>
+  comboFromEvent({ key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers });
+
+describe('normalizeShortcut', () => {
+  it('puts modifiers in a fixed order and upper-cases letters', () => {
+    expect(normalizeShortcut('shift+ctrl+t')).toBe('Ctrl+Shift+T');
+    expect(normalizeShortcut('Alt+Shift+Ctrl+x')).toBe('Ctrl+Alt+Shift+X');
+  });
+
+  it('reads "+" as the key in "Ctrl++"', () => {
+    expect(normalizeShortcut('ctrl++')).toBe('Ctrl++');
+    expect(normalizeShortcut('Ctrl+Shift++')).toBe('Ctrl+Shift++');
+  });
+
+  it('collapses the spaces between chord parts', () => {
+    expect(normalizeShortcut('  ctrl+k    ctrl+s ')).toBe('Ctrl+K Ctrl+S');
+  });
+});
+
+describe('comboFromEvent', () => {
+  it('spells a key press like a normalized shortcut', () => {
+    expect(press('t', { ctrlKey: true, shiftKey: true })).toBe('Ctrl+Shift+T');
+    expect(press('k', { metaKey: true })).toBe('Ctrl+K');
+    expect(press(' ', { altKey: true })).toBe('Alt+Space');
+    expect(press('+', { ctrlKey: true })).toBe(normalizeShortcut('Ctrl++'));
+  });
+
+  it('leaves Shift out of symbol keys, where it is already applied', () => {
+    expect(press('?', { shiftKey: true })).toBe('?');
+    expect(press('}', { ctrlKey: true, shiftKey: true })).toBe('Ctrl+}');
+    expect(press('ArrowUp', { shiftKey: true })).toBe('Shift+ArrowUp');
+  });
+
+  it('ignores a lone modifier', () => {
+    expect(press('Control', { ctrlKey: true })).toBeUndefined();
+    expect(press('Shift', { shiftKey: true })).toBeUndefined();
+  });
+});
+
+describe('matchShortcut', () => {
+  const keymap = resolveKeymap({ 'note.save': ['Ctrl+M Ctrl+S'] });
+
+  it('matches single combos from the defaults', () => {
+    expect(matchShortcut(keymap, ['Ctrl+T'])).toEqual({ type: 'command', commandId: 'note.new' });
+  });
+
+  it('waits on a chord prefix, then matches the full chord', () => {
+    expect(matchShortcut(keymap, ['Ctrl+M'])).toEqual({ type: 'pending' });
+    expect(matchShortcut(keymap, ['Ctrl+M', 'Ctrl+S'])).toEqual({ type: 'command', commandId: 'note.save' });
+  });
+
+  it('matches nothing for an unknown chord', () => {
+    expect(matchShortcut(keymap, ['Ctrl+M', 'Ctrl+Q'])).toEqual({ type: 'none' });
+    expect(matchShortcut(keymap, ['Ctrl+Alt+Shift+Q'])).toEqual({ type: 'none' });
+  });
+
+  it('skips editor-only commands in other text fields', () => {
+    expect(matchShortcut(keymap, ['Ctrl+Z'])).toEqual({ type: 'command', commandId: 'edit.undo' });
+    expect(matchShortcut(keymap, ['Ctrl+Z'], true)).toEqual({ type: 'none' });
+  });
+});
+
+describe('keymap overrides', () => {
+  afterEach(() => localStorage.clear());
+
+  it('replaces or unbinds a default and keeps the rest', () => {
+    const keymap = resolveKeymap({ 'note.new': [], 'tab.close': ['Ctrl+Alt+W'] });
+    expect(keymap['note.new']).toEqual([]);
+    expect(keymap['tab.close']).toEqual(['Ctrl+Alt+W']);
+    expect(keymap['note.save']).toEqual(['Ctrl+S']);
+    expect(matchShortcut(keymap, ['Ctrl+T'])).toEqual({ type: 'none' });
+  });
+
+  it('loads saved overrides, normalized, dropping unknown commands', () => {
+    localStorage.setItem('notepad-keymap', JSON.stringify({ 'note.new': [], 'tab.close': ['alt+ctrl+w'], 'no.such': ['Ctrl+Q'] }));
+    expect(loadKeymapOverrides()).toEqual({ 'note.new': [], 'tab.close': ['Ctrl+Alt+W'] });
+  });
+
+  it('round-trips through storage and survives broken data', () => {
+    saveKeymapOverrides({ 'search.notes': ['Ctrl+P'] });
+    expect(loadKeymapOverrides()).toEqual({ 'search.notes': ['Ctrl+P'] });
+    localStorage.setItem('notepad-keymap', '{not json');
+    expect(loadKeymapOverrides()).toEqual({});
+  });
+});
@@ -0,0 +1,131 @@
+import { COMMANDS, type CommandId } from '@/lib/commands';
+
+/**
+ * A shortcut is one key combo ("Ctrl+Shift+T") or a chord of combos pressed
+ * one after another, separated by spaces ("Ctrl+K Ctrl+S"). Ctrl also
+ * matches ⌘ on macOS.
+ */
+export type Shortcut = string;
+
+/** Shortcuts the user changed, by command. An empty list unbinds the command. */
+export type KeymapOverrides = Partial<Record<CommandId, Shortcut[]>>;
+
+export type Keymap = Record<CommandId, Shortcut[]>;
+
+export interface ShortcutConflict {
+  shortcut: Shortcut;
+  commandIds: CommandId[];
+}
+
+const KEYMAP_KEY = 'notepad-keymap';
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift'];
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'AltGraph', 'Shift', 'Meta', 'CapsLock', 'Dead', 'Unidentified']);
+
+function normalizeKey(key: string): string {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+/** The combo for a key press, or undefined when only a modifier was pressed. */
+export function comboFromEvent(e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | undefined {
+  if (MODIFIER_KEYS.has(e.key)) return undefined;
+  const key = normalizeKey(e.key);
+  // Shift is already part of symbols such as "?" or "}"
+  const shift = e.shiftKey && (key.length > 1 || /^[A-Z]$/.test(key));
+  return [
+    e.ctrlKey || e.metaKey ? 'Ctrl' : '',
+    e.altKey ? 'Alt' : '',
+    shift ? 'Shift' : '',
+    key,
+  ].filter(Boolean).join('+');
+}
+
+/** Canonical spelling of a shortcut: modifiers in a fixed order, single spaces. */
+export function normalizeShortcut(shortcut: string): Shortcut {
+  return shortcut.trim().split(/\s+/).map(combo => {
+    // The key itself may be "+" ("Ctrl++")
+    const parts = combo.split(/\+(?!$)/);
+    const key = normalizeKey(parts.pop() ?? '');
+    const modifiers = parts.map(part => MODIFIERS.find(m => m.toLowerCase() === part.toLowerCase()) ?? part);
+    return [...MODIFIERS.filter(m => modifiers.includes(m)), key].join('+');
+  }).join(' ');
+}
+
+/** Whether a combo uses Ctrl or Alt, so it cannot be ordinary typing. */
+export function hasCommandModifier(combo: string): boolean {
+  return /^(Ctrl|Alt)\+./.test(combo);
+}
+
+export function resolveKeymap(overrides: KeymapOverrides): Keymap {
+  return Object.fromEntries(
+    COMMANDS.map(command => [command.id, overrides[command.id] ?? command.keys])
+  ) as Keymap;
+}
+
+// Two shortcuts clash when they are equal or one is the start of the other's chord
+function clashes(a: Shortcut, b: Shortcut): boolean {
+  return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+}
+
+/** Commands other than `commandId` whose shortcuts clash with `shortcut`. */
+export function conflictingCommands(keymap: Keymap, shortcut: Shortcut, commandId?: CommandId): CommandId[] {
+  return COMMANDS
+    .filter(command => command.id !== commandId && keymap[command.id].some(other => clashes(other, shortcut)))
+    .map(command => command.id);
+}
+
+export function findConflicts(keymap: Keymap): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  COMMANDS.forEach((command, i) => {
+    for (const shortcut of keymap[command.id]) {
+      // Only later commands, so each clash is reported once
+      const others = COMMANDS.slice(i + 1)
+        .filter(other => keymap[other.id].some(otherShortcut => clashes(otherShortcut, shortcut)))
+        .map(other => other.id);
+      if (others.length > 0) conflicts.push({ shortcut, commandIds: [command.id, ...others] });
+    }
+  });
+  return conflicts;
+}
+
+export type ShortcutMatch =
+  | { type: 'command'; commandId: CommandId }
+  | { type: 'pending' }
+  | { type: 'none' };
+
+/**
+ * What pressing `combos` (the chord so far) does under `keymap`. Editor-only
+ * commands are skipped when `inOtherTextField`.
+ */
+export function matchShortcut(keymap: Keymap, combos: string[], inOtherTextField = false): ShortcutMatch {
+  const pressed = combos.join(' ');
+  let pending = false;
+  for (const command of COMMANDS) {
+    if (command.editorOnly && inOtherTextField) continue;
+    for (const shortcut of keymap[command.id]) {
+      if (shortcut === pressed) return { type: 'command', commandId: command.id };
+      if (shortcut.startsWith(`${pressed} `)) pending = true;
+    }
+  }
+  return pending ? { type: 'pending' } : { type: 'none' };
+}
+
+export function loadKeymapOverrides(): KeymapOverrides {
+  try {
+    const saved = localStorage.getItem(KEYMAP_KEY);
+    const parsed: Record<string, unknown> = saved ? JSON.parse(saved) : {};
+    const known = new Set<string>(COMMANDS.map(command => command.id));
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter(([id, keys]) => known.has(id) && Array.isArray(keys))
+        .map(([id, keys]) => [id, (keys as string[]).map(normalizeShortcut)])
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function saveKeymapOverrides(overrides: KeymapOverrides) {
+  localStorage.setItem(KEYMAP_KEY, JSON.stringify(overrides));
+}
@@ -0,0 +1,71 @@
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+  /** 1-based line numbers in the old / new text, where the line exists there. */
+  oldLine?: number;
+  newLine?: number;
+}
+
+// Above this many LCS cells the changed region is shown as a block replace
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Line-level diff via longest common subsequence. */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Common prefix and suffix are cheap and usually most of a note
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMid = a.slice(prefix, a.length - suffix);
+  const newMid = b.slice(prefix, b.length - suffix);
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const equal = (text: string) => result.push({ type: 'equal', text, oldLine: oldLine++, newLine: newLine++ });
+  const removed = (text: string) => result.push({ type: 'removed', text, oldLine: oldLine++ });
+  const added = (text: string) => result.push({ type: 'added', text, newLine: newLine++ });
+
+  a.slice(0, prefix).forEach(equal);
+
+  const n = oldMid.length;
+  const m = newMid.length;
+  if (n * m > MAX_LCS_CELLS) {
+    oldMid.forEach(removed);
+    newMid.forEach(added);
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of oldMid[i..] and newMid[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = oldMid[i] === newMid[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMid[i] === newMid[j]) {
+        equal(oldMid[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        removed(oldMid[i++]);
+      } else {
+        added(newMid[j++]);
+      }
+    }
+    oldMid.slice(i).forEach(removed);
+    newMid.slice(j).forEach(added);
+  }
+
+  a.slice(a.length - suffix).forEach(equal);
+  return result;
+}
@@ -0,0 +1,11 @@
+const FENCE = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[ \t]*$|(?![\s\S]))/gm;
+const INLINE_CODE = /(`+)[^`\n][\s\S]*?\1/g;
+
+/**
+ * Blanks out fenced and inline code so syntax inside it (#tags, [[links]])
+ * is ignored by text scanners. Every offset and line stays where it was.
+ */
+export function maskCode(content: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+  return content.replace(FENCE, blank).replace(INLINE_CODE, blank);
+}
@@ -0,0 +1,40 @@
+import type { TokenizerAndRendererExtension } from 'marked';
+import { escapeHtml } from '@/lib/utils';
+
+// Math and Mermaid diagrams are emitted as placeholders carrying their source
+// in data attributes; render-embeds.ts turns them into KaTeX / SVG in the
+// browser. Until then (and in exports) the source shows as text.
+
+// $$…$$ starting a block, on one line or spanning several
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: src => src.match(/^\$\$/m)?.index,
+  tokenizer(src) {
+    const match = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/.exec(src);
+    if (!match) return undefined;
+    return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+  },
+  renderer: token => `<div class="math-block" data-math="${escapeHtml(token.text)}" data-display>${escapeHtml(token.text)}</div>\n`,
+};
+
+// $…$ (or $$…$$ within a line, in display style) with no space just inside
+// the dollars and no digit after the closing ones, so "costs $5 or $10" stays text
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: src => src.indexOf('$'),
+  tokenizer(src) {
+    const match = /^(\$\$?)(?![\s$])((?:\\.|[^\\$\n])+?)(?<!\s)\1(?![\d$])/.exec(src);
+    if (!match) return undefined;
+    return { type: 'inlineMath', raw: match[0], text: match[2], display: match[1] === '$$' };
+  },
+  renderer: token => `<span class="math-inline" data-math="${escapeHtml(token.text)}"${token.display ? ' data-display' : ''}>${escapeHtml(token.text)}</span>`,
+};
+
+export const mathExtensions = [blockMath, inlineMath];
+
+/** A ```mermaid block: the source, shown as code until the diagram renders. */
+export function renderDiagramPlaceholder(source: string): string {
+  return `<div class="mermaid-diagram not-prose" data-mermaid="${escapeHtml(source)}"><pre>${escapeHtml(source)}</pre></div>\n`;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from '@/lib/markdown';
+
+// Spec examples compare markup, not the newlines between tags
+const normalize = (html: string) => html.replace(/>\s+</g, '><').trim();
+const render = (markdown: string) => normalize(renderMarkdown(markdown));
+
+// Examples from the GitHub Flavored Markdown spec (https://github.github.com/gfm/)
+describe('renderMarkdown: GFM spec examples', () => {
+  it('tables (example 198)', () => {
+    expect(render('| foo | bar |\n| --- | --- |\n| baz | bim |')).toBe(normalize(`
+      <table><thead><tr><th>foo</th><th>bar</th></tr></thead>
+      <tbody><tr><td>baz</td><td>bim</td></tr></tbody></table>`));
+  });
+
+  it('table column alignment (example 199)', () => {
+    expect(render('| abc | defghi |\n:-: | -----------:\nbar | baz')).toBe(normalize(`
+      <table><thead><tr><th align="center">abc</th><th align="right">defghi</th></tr></thead>
+      <tbody><tr><td align="center">bar</td><td align="right">baz</td></tr></tbody></table>`));
+  });
+
+  it('a table ends where another block starts (example 201)', () => {
+    expect(render('| abc | def |\n| --- | --- |\n| bar | baz |\n> bar')).toBe(normalize(`
+      <table><thead><tr><th>abc</th><th>def</th></tr></thead>
+      <tbody><tr><td>bar</td><td>baz</td></tr></tbody></table>
+      <blockquote><p>bar</p></blockquote>`));
+  });
+
+  it('task lists (example 279)', () => {
+    expect(render('- [ ] foo\n- [x] bar')).toBe(normalize(`
+      <ul><li><input disabled="" type="checkbox"> foo</li>
+      <li><input checked="" disabled="" type="checkbox"> bar</li></ul>`));
+  });
+
+  it('nested task lists (example 280)', () => {
+    expect(render('- [x] foo\n  - [ ] bar\n  - [x] baz\n- [ ] bim')).toBe(normalize(`
+      <ul><li><input checked="" disabled="" type="checkbox"> foo<ul>
+      <li><input disabled="" type="checkbox"> bar</li>
+      <li><input checked="" disabled="" type="checkbox"> baz</li></ul></li>
+      <li><input disabled="" type="checkbox"> bim</li></ul>`));
+  });
+
+  it('strikethrough (examples 491 and 493)', () => {
+    expect(render('~~Hi~~ Hello, ~there~ world!')).toBe('<p><del>Hi</del> Hello, <del>there</del> world!</p>');
+    expect(render('This will ~~~not~~~ strike.')).toBe('<p>This will ~~~not~~~ strike.</p>');
+  });
+
+  it('extended www autolinks (example 621)', () => {
+    expect(render('www.commonmark.org')).toBe('<p><a href="http://www.commonmark.org">www.commonmark.org</a></p>');
+  });
+
+  it('extended url autolinks (example 631)', () => {
+    expect(render('http://commonmark.org\n\n(Visit https://encrypted.google.com/search?q=Markup+(business))')).toBe(normalize(`
+      <p><a href="http://commonmark.org">http://commonmark.org</a></p>
+      <p>(Visit <a href="https://encrypted.google.com/search?q=Markup+(business)">https://encrypted.google.com/search?q=Markup+(business)</a>)</p>`));
+  });
+
+  it('extended email autolinks (example 632)', () => {
+    expect(render('foo@bar.baz')).toBe('<p><a href="mailto:foo@bar.baz">foo@bar.baz</a></p>');
+  });
+
+  it('angle-bracket autolinks (example 594)', () => {
+    expect(render('<http://foo.bar.baz>')).toBe('<p><a href="http://foo.bar.baz">http://foo.bar.baz</a></p>');
+  });
+});
+
+// Fenced code goes through the highlighter, so only the code element is compared
+describe('renderMarkdown: fenced code (GFM spec)', () => {
+  const code = (markdown: string) => /<code[^>]*>[\s\S]*?<\/code>/.exec(renderMarkdown(markdown))?.[0];
+
+  it('escapes the content of a backtick fence (example 119)', () => {
+    expect(code('```\n<\n >\n```')).toBe('<code class="hljs">&lt;\n &gt;</code>');
+  });
+
+  it('closes a tilde fence only with tildes (example 123)', () => {
+    expect(code('~~~\naaa\n```\n~~~')).toBe('<code class="hljs">aaa\n```</code>');
+  });
+
+  it('runs an unclosed fence to the end of the document (example 126)', () => {
+    expect(code('`````\n\n```\naaa')).toBe('<code class="hljs">\n```\naaa</code>');
+  });
+
+  it('takes the language from the info string (example 142)', () => {
+    expect(code('```ruby\ndef foo(x)\n  return 3\nend\n```')).toBe('<code class="hljs language-ruby">def foo(x)\n  return 3\nend</code>');
+  });
+
+  it('highlights supported languages', () => {
+    expect(code('```js\nconst a = 1;\n```')).toContain('<span class="hljs-keyword">const</span>');
+  });
+});
+
+describe('renderMarkdown: source lines', () => {
+  it('tags top-level blocks with their source line', () => {
+    const html = renderMarkdown('# Title\n\nText\n\n- a\n- b', { sourceLines: true });
+    expect(html).toContain('<h1 data-source-line="0">');
+    expect(html).toContain('<p data-source-line="2">');
+    expect(html).toContain('<ul data-source-line="4">');
+  });
+
+  it('points nested and quoted task items at their own lines', () => {
+    const html = renderMarkdown('- [ ] one\n  - [x] two\n\n> - [ ] three', { sourceLines: true });
+    expect(html).toContain('<li data-task-line="0"><input type="checkbox"> one');
+    expect(html).toContain('<li data-task-line="1"><input checked="" type="checkbox"> two');
+    expect(html).toContain('<li data-task-line="3"><input type="checkbox"> three');
+  });
+});
@@ -0,0 +1,147 @@
+import { Marked, Renderer, type Token, type TokenizerAndRendererExtension, type Tokens, type TokensList } from 'marked';
+import { format } from 'date-fns';
+import { renderCodeBlock } from '@/lib/code-highlight';
+import { dueAt, matchDueToken } from '@/lib/due-dates';
+import { mathExtensions, renderDiagramPlaceholder } from '@/lib/markdown-embeds';
+import { escapeHtml } from '@/lib/utils';
+import { matchWikiLink } from '@/lib/wiki-links';
+
+// [[Note Title]] and [[Note Title|label]] become links carrying the target
+// title in `data-wiki-link`; the preview resolves and opens them on click
+const wikiLink: TokenizerAndRendererExtension = {
+  name: 'wikiLink',
+  level: 'inline',
+  start: src => src.indexOf('[['),
+  tokenizer(src) {
+    const link = matchWikiLink(src);
+    if (!link) return undefined;
+    return {
+      type: 'wikiLink',
+      raw: link.raw,
+      target: link.target,
+      tokens: this.lexer.inlineTokens(link.label),
+    };
+  },
+  renderer(token) {
+    const label = this.parser.parseInline(token.tokens ?? []);
+    return `<a href="#" class="wiki-link" data-wiki-link="${escapeHtml(token.target)}">${label}</a>`;
+  },
+};
+
+// A `class=` or `data-*=` attribute in raw HTML, matched wherever it could
+// start an attribute name (after whitespace, "/" or a closing quote), so the
+// note cannot pose as the renderer's own markup, e.g. with data-task-line
+const RAW_HOOK_ATTRIBUTE = /(^|[\s/"'])((?:class|data-[^\s/>=]*)\s*=)/gi;
+
+// @due(2026-10-20 14:30) shows as a date pill; the syntax is in due-dates.ts
+const dueDate: TokenizerAndRendererExtension = {
+  name: 'dueDate',
+  level: 'inline',
+  start: src => src.indexOf('@due('),
+  tokenizer(src) {
+    const match = matchDueToken(src);
+    if (!match) return undefined;
+    return { type: 'dueDate', raw: match.raw, due: match.due };
+  },
+  renderer(token) {
+    const label = format(dueAt(token.due), 'd MMM yyyy') + (token.due.time ? ` ${token.due.time}` : '');
+    return `<span class="due-date" title="${escapeHtml(token.raw)}">Due ${label}</span>`;
+  },
+};
+
+// A task list item that renderMarkdown located in the source
+type SourceListItem = Tokens.ListItem & { sourceLine?: number };
+
+const countLines = (text: string) => (text.match(/\n/g) ?? []).length;
+
+// Records the source line of every task item in `token`, which starts on
+// `line`. List items are slices of the list's raw text; the children of an
+// item or quote were lexed from its text, which keeps one line per source line.
+function tagTaskLines(token: Token, line: number) {
+  let children: Token[];
+  let text: string;
+  if (token.type === 'list') {
+    children = (token as Tokens.List).items;
+    text = token.raw;
+  } else if (token.type === 'list_item' || token.type === 'blockquote') {
+    children = (token as Tokens.ListItem | Tokens.Blockquote).tokens;
+    text = (token as Tokens.ListItem | Tokens.Blockquote).text;
+  } else {
+    return;
+  }
+
+  let offset = 0;
+  for (const child of children) {
+    const index = text.indexOf(child.raw, offset);
+    if (index === -1) continue;
+    const childLine = line + countLines(text.slice(0, index));
+    if (child.type === 'list_item' && (child as Tokens.ListItem).task) {
+      (child as SourceListItem).sourceLine = childLine;
+    }
+    tagTaskLines(child, childLine);
+    offset = index + child.raw.length;
+  }
+}
+
+// CommonMark + GFM (tables, task lists, strikethrough, autolinks), plus
+// @due dates, $math$ and ```mermaid placeholders (see markdown-embeds.ts).
+// The output is not safe on its own: pass it through sanitizeHtml before
+// it reaches the DOM.
+const markdown = new Marked({
+  gfm: true,
+  breaks: false,
+  extensions: [wikiLink, dueDate, ...mathExtensions],
+  renderer: {
+    // Renamed attributes are not on the sanitizer's allowlist and get dropped
+    html: ({ text }) => text.replace(RAW_HOOK_ATTRIBUTE, '$1x-$2'),
+    code: ({ text, lang }) => (lang?.trim().toLowerCase() === 'mermaid'
+      ? renderDiagramPlaceholder(text)
+      : renderCodeBlock(text, lang)),
+    listitem(item) {
+      const line = (item as SourceListItem).sourceLine;
+      if (line === undefined) return false;
+      // A located task gets a clickable checkbox (its own comes first in the
+      // item) and the line it toggles
+      return Renderer.prototype.listitem.call(this, item)
+        .replace(/^<li>/, `<li data-task-line="${line}">`)
+        .replace(' disabled=""', '');
+    },
+  },
+});
+
+export interface RenderOptions {
+  /**
+   * Tag each top-level block with `data-source-line` (0-based) for scroll
+   * sync, and each task item with `data-task-line` so its checkbox can be toggled.
+   */
+  sourceLines?: boolean;
+}
+
+export function renderMarkdown(content: string, options: RenderOptions = {}): string {
+  if (!options.sourceLines) {
+    return markdown.parse(content, { async: false }) as string;
+  }
+
+  // Match the lexer's newline normalisation so token offsets line up
+  const source = content.replace(/\r\n?/g, '\n');
+  const tokens = markdown.lexer(source);
+  let offset = 0;
+  let line = 0;
+  let html = '';
+  for (const token of tokens) {
+    // Some tokens (e.g. link definitions) are dropped from the list, so
+    // locate each block in the source rather than summing raw lengths
+    const index = source.indexOf(token.raw, offset);
+    const start = index === -1 ? offset : index;
+    line += countLines(source.slice(offset, start));
+    tagTaskLines(token, line);
+
+    // Render blocks one at a time so reference-style links still resolve
+    const block = Object.assign([token], { links: tokens.links }) as TokensList;
+    const rendered = markdown.parser(block);
+    html += rendered.replace(/^<([a-z][a-z0-9]*)/i, `<$1 data-source-line="${line}"`);
+    line += countLines(token.raw);
+    offset = start + token.raw.length;
+  }
+  return html;
+}
@@ -0,0 +1,15 @@
+import type { Note } from '@/lib/storage';
+
+/**
+ * Memoizes a function of a note per note object. Notes are replaced rather
+ * than mutated, so a new object is the only way a note's result can change.
+ */
+export function cachedPerNote<T>(compute: (note: Note) => T): (note: Note) => T {
+  const cache = new WeakMap<Note, T>();
+  return note => {
+    if (cache.has(note)) return cache.get(note) as T;
+    const value = compute(note);
+    cache.set(note, value);
+    return value;
+  };
+}
@@ -0,0 +1,113 @@
+// Renders the math and diagram placeholders from markdown-embeds.ts inside
+// the preview. KaTeX and Mermaid are large, so they are only fetched once a
+// note actually uses them.
+
+type Katex = typeof import('katex')['default'];
+type Mermaid = typeof import('mermaid')['default'];
+
+let katexPromise: Promise<Katex> | undefined;
+let mermaidPromise: Promise<Mermaid> | undefined;
+
+function loadKatex(): Promise<Katex> {
+  katexPromise ??= Promise.all([import('katex'), import('katex/dist/katex.min.css')])
+    .then(([module]) => module.default)
+    .catch(error => {
+      // Let the next render try again, e.g. after a network hiccup
+      katexPromise = undefined;
+      throw error;
+    });
+  return katexPromise;
+}
+
+function loadMermaid(): Promise<Mermaid> {
+  mermaidPromise ??= import('mermaid')
+    .then(module => module.default)
+    .catch(error => {
+      mermaidPromise = undefined;
+      throw error;
+    });
+  return mermaidPromise;
+}
+
+// Shown in place of a formula or diagram that failed, so the rest of the preview still renders
+function errorBox(title: string, error: unknown, block: boolean): HTMLElement {
+  const box = document.createElement(block ? 'div' : 'span');
+  box.className = 'embed-error';
+  box.textContent = `${title}: ${error instanceof Error ? error.message : String(error)}`;
+  return box;
+}
+
+export async function renderMath(container: HTMLElement) {
+  const elements = Array.from(container.querySelectorAll<HTMLElement>('[data-math]'));
+  if (elements.length === 0) return;
+
+  let katex: Katex;
+  try {
+    katex = await loadKatex();
+  } catch (error) {
+    elements.forEach(element => element.replaceChildren(errorBox('Could not load math rendering', error, element.tagName === 'DIV')));
+    return;
+  }
+  for (const element of elements) {
+    const displayMode = element.hasAttribute('data-display');
+    try {
+      katex.render(element.dataset.math ?? '', element, { displayMode, throwOnError: true });
+    } catch (error) {
+      element.replaceChildren(errorBox('Math error', error, element.tagName === 'DIV'));
+    }
+    element.dataset.rendered = '';
+  }
+}
+
+// SVG by theme and source; typing re-renders the preview on every keystroke
+const diagramCache = new Map<string, string>();
+const MAX_CACHED_DIAGRAMS = 50;
+let diagramCount = 0;
+// Mermaid keeps global state while rendering, so renders run one at a time
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+async function renderDiagram(mermaid: Mermaid, source: string, theme: 'dark' | 'default'): Promise<string> {
+  const key = `${theme}\n${source}`;
+  const cached = diagramCache.get(key);
+  if (cached) return cached;
+
+  mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme });
+  const id = `mermaid-diagram-${++diagramCount}`;
+  try {
+    const { svg } = await mermaid.render(id, source);
+    diagramCache.set(key, svg);
+    if (diagramCache.size > MAX_CACHED_DIAGRAMS) diagramCache.delete(diagramCache.keys().next().value!);
+    return svg;
+  } finally {
+    // A failed render leaves its scratch element behind
+    document.getElementById(`d${id}`)?.remove();
+  }
+}
+
+export async function renderDiagrams(container: HTMLElement, dark: boolean) {
+  const elements = Array.from(container.querySelectorAll<HTMLElement>('[data-mermaid]'));
+  if (elements.length === 0) return;
+
+  let mermaid: Mermaid;
+  try {
+    mermaid = await loadMermaid();
+  } catch (error) {
+    elements.forEach(element => element.replaceChildren(errorBox('Could not load diagram rendering', error, true)));
+    return;
+  }
+  const theme = dark ? 'dark' : 'default';
+  for (const element of elements) {
+    const render = renderQueue.then(async () => {
+      // The preview may have been re-rendered while waiting
+      if (!element.isConnected) return;
+      try {
+        element.innerHTML = await renderDiagram(mermaid, element.dataset.mermaid ?? '', theme);
+      } catch (error) {
+        element.replaceChildren(errorBox('Diagram error', error, true));
+      }
+      element.dataset.rendered = '';
+    });
+    renderQueue = render;
+    await render;
+  }
+}
@@ -0,0 +1,60 @@
+import type { Note, Revision } from '@/lib/storage';
+
+/** Minimum time between routine snapshots of the same note. */
+export const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+export const MAX_REVISIONS = 50;
+export const MAX_REVISION_AGE = 30 * 24 * 60 * 60 * 1000;
+
+// Deleting at least this share of a note (or 200 characters) counts as
+// destructive, and the text about to be lost is snapshotted first
+const LARGE_DELETION_RATIO = 0.5;
+const LARGE_DELETION_CHARS = 200;
+
+export function isLargeDeletion(before: string, after: string): boolean {
+  const removed = before.length - after.length;
+  return removed > 0 && removed >= Math.min(LARGE_DELETION_CHARS, before.length * LARGE_DELETION_RATIO);
+}
+
+function snapshot(note: Pick<Note, 'id' | 'title'>, content: string, takenAt: number): Revision {
+  return {
+    id: `${note.id}-${takenAt}`,
+    noteId: note.id,
+    title: note.title,
+    content,
+    lastModified: takenAt,
+  };
+}
+
+/**
+ * Revisions to add for a save of `note`. `previousContent` is what was stored
+ * before this save; `latest` is the newest existing revision.
+ */
+export function revisionsForSave(
+  note: Note,
+  previousContent: string | undefined,
+  latest: Revision | undefined,
+  now: number,
+  force = false,
+): Revision[] {
+  const added: Revision[] = [];
+  let newest = latest;
+
+  if (previousContent !== undefined && isLargeDeletion(previousContent, note.content) && newest?.content !== previousContent) {
+    newest = snapshot(note, previousContent, now - 1);
+    added.push(newest);
+  }
+
+  const due = force || added.length > 0 || !newest || now - newest.lastModified >= SNAPSHOT_INTERVAL;
+  if (due && newest?.content !== note.content) {
+    added.push(snapshot(note, note.content, now));
+  }
+  return added;
+}
+
+/** Ids of revisions past the count or age cap. The newest revision is always kept. */
+export function expiredRevisions(revisions: Revision[], now: number): string[] {
+  const newestFirst = [...revisions].sort((a, b) => b.lastModified - a.lastModified);
+  return newestFirst
+    .filter((revision, index) => index > 0 && (index >= MAX_REVISIONS || now - revision.lastModified > MAX_REVISION_AGE))
+    .map(revision => revision.id);
+}
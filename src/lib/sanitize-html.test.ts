@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from '@/lib/markdown';
+import { isSafeUrl, sanitizeHtml } from '@/lib/sanitize-html';
+
+// Parses the sanitized output the way the preview does, for structural checks
+function sanitizeToDom(html: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = sanitizeHtml(html);
+  return container;
+}
+
+const hasAttributeMatching = (root: Element, pattern: RegExp) =>
+  Array.from(root.querySelectorAll('*')).some(element =>
+    Array.from(element.attributes).some(attribute => pattern.test(attribute.name) || pattern.test(attribute.value)));
+
+describe('sanitizeHtml: XSS payloads', () => {
+  it('drops event handler attributes', () => {
+    const dom = sanitizeToDom('<img src="x" onerror="alert(1)"><p onclick="alert(1)" onmouseover=alert(1)>hi</p>');
+    expect(hasAttributeMatching(dom, /^on/i)).toBe(false);
+    expect(dom.querySelector('img')?.getAttribute('src')).toBe('x');
+    expect(dom.textContent).toBe('hi');
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    'java\rscript:alert(1)',
+    ' \u0001javascript:alert(1)',
+    'vbscript:msgbox(1)',
+  ])('removes the link %j', href => {
+    expect(isSafeUrl(href)).toBe(false);
+    const link = sanitizeToDom(`<a href="${href}">x</a>`).querySelector('a');
+    expect(link?.hasAttribute('href')).toBe(false);
+  });
+
+  it.each([
+    '<a href="javascript&colon;alert(1)">x</a>',
+    '<a href="&#106;avascript:alert(1)">x</a>',
+    '<a href="&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)">x</a>',
+    '<a href="java&#9;script:alert(1)">x</a>',
+    '<a href="java&NewLine;script:alert(1)">x</a>',
+  ])('removes entity-encoded javascript: links in %s', html => {
+    expect(sanitizeToDom(html).querySelector('a')?.hasAttribute('href')).toBe(false);
+  });
+
+  it('keeps safe links and opens external ones in a new tab', () => {
+    const links = sanitizeToDom('<a href="https://example.com">a</a><a href="#top">b</a><a href="mailto:a@b.c">c</a>')
+      .querySelectorAll('a');
+    expect(Array.from(links, link => link.getAttribute('href'))).toEqual(['https://example.com', '#top', 'mailto:a@b.c']);
+    expect(links[0].getAttribute('rel')).toBe('noopener noreferrer');
+    expect(links[0].getAttribute('target')).toBe('_blank');
+  });
+
+  it('drops svg and math with their script vectors', () => {
+    const dom = sanitizeToDom(
+      '<svg onload="alert(1)"><script>alert(1)</script><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>'
+      + '<math><maction actiontype="statusline" xlink:href="javascript:alert(1)">y</maction></math>'
+      + '<svg><animate attributeName="href" values="javascript:alert(1)"/></svg>ok'
+    );
+    expect(dom.innerHTML).toBe('ok');
+  });
+
+  it('drops the content of svg style elements that break out into HTML', () => {
+    const dom = sanitizeToDom('<svg><style><img src=x onerror=alert(1)></style></svg>');
+    expect(hasAttributeMatching(dom, /^on/i)).toBe(false);
+  });
+
+  it('only allows data: URLs for base64 raster images', () => {
+    expect(isSafeUrl('data:image/png;base64,iVBORw0KGgo=', 'image')).toBe(true);
+    expect(isSafeUrl('data:image/svg+xml;base64,PHN2Zz4=', 'image')).toBe(false);
+    expect(isSafeUrl('data:text/html;base64,PHNjcmlwdD4=', 'image')).toBe(false);
+    expect(isSafeUrl('data:image/png;base64,iVBORw0KGgo=')).toBe(false);
+    const dom = sanitizeToDom('<a href="data:text/html,<script>alert(1)</script>">x</a><img src="data:image/svg+xml,<svg onload=alert(1)>">');
+    expect(dom.querySelector('a')?.hasAttribute('href')).toBe(false);
+    expect(dom.querySelector('img')?.hasAttribute('src')).toBe(false);
+  });
+
+  it('drops iframes, objects, embeds and forms with their content', () => {
+    const dom = sanitizeToDom(
+      '<iframe src="javascript:alert(1)">a</iframe><iframe srcdoc="<script>alert(1)</script>"></iframe>'
+      + '<object data="javascript:alert(1)">b</object><embed src="x.swf"><form action="javascript:alert(1)"><button>c</button></form>ok'
+    );
+    expect(dom.innerHTML).toBe('ok');
+  });
+
+  it('drops style attributes and style elements', () => {
+    const dom = sanitizeToDom(
+      '<p style="background:url(javascript:alert(1))">a</p><div style="behavior:url(x.htc)">b</div>'
+      + '<style>body{background:url("javascript:alert(1)")}</style>'
+    );
+    expect(hasAttributeMatching(dom, /^style$/i)).toBe(false);
+    expect(dom.querySelector('style')).toBeNull();
+    expect(dom.textContent).toBe('ab');
+  });
+
+  it('drops scripts, comments and non-checkbox inputs', () => {
+    const dom = sanitizeToDom('<script>alert(1)</script><!-- <img src=x onerror=alert(1)> --><input type="text" value="x"><input type="checkbox" checked>');
+    expect(dom.innerHTML).toBe('<input type="checkbox" checked="">');
+  });
+
+  it('unwraps unknown elements but keeps their text', () => {
+    expect(sanitizeHtml('<custom-element onclick="alert(1)"><b>bold</b></custom-element>')).toBe('<b>bold</b>');
+  });
+});
+
+describe('sanitizeHtml: renderer hooks', () => {
+  it('keeps only the classes and data attributes the renderer emits', () => {
+    const dom = sanitizeToDom('<div class="code-block fixed inset-0 z-50" data-source-line="2" data-foo="x">a</div>');
+    const div = dom.querySelector('div')!;
+    expect(div.getAttribute('class')).toBe('code-block');
+    expect(div.getAttribute('data-source-line')).toBe('2');
+    expect(div.hasAttribute('data-foo')).toBe(false);
+  });
+
+  it('keeps highlight.js classes', () => {
+    expect(sanitizeHtml('<span class="hljs-title class_">A</span>')).toBe('<span class="hljs-title class_">A</span>');
+  });
+
+  it('strips hooks from raw HTML in a note', () => {
+    const html = sanitizeHtml(renderMarkdown(
+      '<div class="fixed inset-0" data-task-line="3">\n\n- [ ] real\n\n</div>\n\n'
+      + 'Text <a href="#" data-wiki-link="Secret" class=\'wiki-link\'>link</a> '
+      + '<span/data-math="x"/data-mermaid = "y">z</span>',
+      { sourceLines: true }
+    ));
+    const dom = document.createElement('div');
+    dom.innerHTML = html;
+    expect(dom.querySelector('.fixed, [data-wiki-link], [data-math], [data-mermaid], div[data-task-line]')).toBeNull();
+    // The renderer's own hook on the real task survives
+    expect(dom.querySelector('li')?.getAttribute('data-task-line')).toBe('2');
+  });
+});
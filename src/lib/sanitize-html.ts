@@ -0,0 +1,124 @@
+// Allowlist-based HTML sanitizer for rendered note content. Anything not
+// listed here is removed before the markup reaches the DOM.
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'dd', 'del', 'details', 'div', 'dl', 'dt',
+  'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'li',
+  'mark', 'ol', 'p', 'pre', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'summary',
+  'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+]);
+
+// Elements dropped together with their content instead of being unwrapped
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template',
+  'noscript', 'textarea', 'select', 'option', 'button', 'form', 'link', 'meta', 'base',
+  'svg', 'math', 'title', 'head',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['title', 'class', 'lang', 'dir', 'aria-hidden']);
+
+// Hooks the renderer emits for the preview (see markdown.ts and markdown-embeds.ts).
+// Other data-* attributes and classes are dropped, so notes cannot borrow the
+// app's utility classes to restyle or cover the UI.
+const DATA_ATTRIBUTES = new Set([
+  'data-source-line', 'data-task-line', 'data-wiki-link', 'data-math', 'data-display', 'data-mermaid',
+]);
+const CLASSES = new Set([
+  'code-block', 'code-block-header', 'code-block-language', 'code-block-line-numbers', 'not-prose',
+  'math-block', 'math-inline', 'mermaid-diagram', 'wiki-link', 'due-date',
+]);
+// highlight.js scopes ("hljs-title class_") and the language of a code block
+const CLASS_PATTERN = /^(?:hljs(?:-[a-z-]+)?|[a-z]+_|language-[\w+#.-]+)$/;
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href']),
+  img: new Set(['src', 'alt', 'width', 'height']),
+  input: new Set(['type', 'checked', 'disabled']),
+  td: new Set(['align', 'colspan', 'rowspan']),
+  th: new Set(['align', 'colspan', 'rowspan']),
+  ol: new Set(['start']),
+  details: new Set(['open']),
+  abbr: new Set(['title']),
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const LINK_SCHEMES = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+const IMAGE_SCHEMES = new Set(['http:', 'https:']);
+const SAFE_DATA_IMAGE = /^data:image\/(png|gif|jpe?g|webp);base64,[a-z0-9+/=\s]+$/i;
+
+export function isSafeUrl(value: string, kind: 'link' | 'image' = 'link'): boolean {
+  // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+  // eslint-disable-next-line no-control-regex
+  const url = value.replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1];
+  if (!scheme) return true; // relative URL or fragment
+  if (kind === 'image' && SAFE_DATA_IMAGE.test(value.trim())) return true;
+  const schemes = kind === 'image' ? IMAGE_SCHEMES : LINK_SCHEMES;
+  return schemes.has(`${scheme.toLowerCase()}:`);
+}
+
+function isAllowedAttribute(tag: string, name: string): boolean {
+  return GLOBAL_ATTRIBUTES.has(name) || DATA_ATTRIBUTES.has(name) || !!TAG_ATTRIBUTES[tag]?.has(name);
+}
+
+function allowedClasses(value: string): string {
+  return value.split(/\s+/).filter(name => CLASSES.has(name) || CLASS_PATTERN.test(name)).join(' ');
+}
+
+function sanitizeElement(element: Element): void {
+  const tag = element.tagName.toLowerCase();
+
+  for (const { name, value } of Array.from(element.attributes)) {
+    const attribute = name.toLowerCase();
+    const keep = isAllowedAttribute(tag, attribute)
+      && (!URL_ATTRIBUTES.has(attribute) || isSafeUrl(value, tag === 'img' ? 'image' : 'link'));
+    if (!keep) element.removeAttribute(name);
+  }
+
+  const classes = element.getAttribute('class');
+  if (classes !== null) {
+    const allowed = allowedClasses(classes);
+    if (allowed) element.setAttribute('class', allowed);
+    else element.removeAttribute('class');
+  }
+
+  if (tag === 'input' && element.getAttribute('type') !== 'checkbox') {
+    element.remove();
+    return;
+  }
+  if (tag === 'a' && /^https?:/i.test(element.getAttribute('href') ?? '')) {
+    element.setAttribute('rel', 'noopener noreferrer');
+    element.setAttribute('target', '_blank');
+  }
+}
+
+function sanitizeChildren(parent: Node): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove(); // comments, processing instructions, ...
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROP_WITH_CONTENT.has(tag)) {
+      element.remove();
+      continue;
+    }
+
+    sanitizeChildren(element);
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeElement(element);
+    } else {
+      element.replaceWith(...Array.from(element.childNodes));
+    }
+  }
+}
+
+export function sanitizeHtml(html: string): string {
+  // DOMParser documents are inert: no scripts run and no resources load while we walk them
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  sanitizeChildren(doc.body);
+  return doc.body.innerHTML;
+}
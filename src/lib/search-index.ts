@@ -0,0 +1,187 @@
+import type { Note } from '@/lib/storage';
+import { escapeRegExp } from '@/lib/utils';
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  note: Note;
+  score: number;
+  /** Context around the first match in the content (or the start of the note). */
+  snippet: SnippetPart[];
+  /** Offsets of the first match in `note.content`, if the content matched. */
+  match?: { start: number; end: number };
+}
+
+interface Posting {
+  title: number;
+  content: number;
+}
+
+const TITLE_WEIGHT = 3;
+const EXACT = 1;
+const PREFIX = 0.6;
+const FUZZY = 0.3;
+const SNIPPET_RADIUS = 40;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+// Levenshtein distance capped at `max`; returns max + 1 when exceeded
+function boundedDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function buildSnippet(content: string, terms: string[]): Pick<SearchResult, 'snippet' | 'match'> {
+  const pattern = terms.length > 0
+    ? new RegExp(terms.map(escapeRegExp).join('|'), 'giu')
+    : null;
+  const first = pattern?.exec(content);
+  if (!pattern || !first) {
+    return { snippet: [{ text: content.slice(0, SNIPPET_RADIUS * 2).replace(/\s+/g, ' '), highlight: false }] };
+  }
+
+  const from = Math.max(0, first.index - SNIPPET_RADIUS);
+  const to = Math.min(content.length, first.index + first[0].length + SNIPPET_RADIUS);
+  const window = content.slice(from, to);
+  const snippet: SnippetPart[] = [];
+  if (from > 0) snippet.push({ text: '…', highlight: false });
+
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (const hit of window.matchAll(pattern)) {
+    if (hit.index > last) snippet.push({ text: window.slice(last, hit.index), highlight: false });
+    snippet.push({ text: hit[0], highlight: true });
+    last = hit.index + hit[0].length;
+  }
+  if (last < window.length) snippet.push({ text: window.slice(last), highlight: false });
+  if (to < content.length) snippet.push({ text: '…', highlight: false });
+
+  return {
+    snippet: snippet.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') })),
+    match: { start: first.index, end: first.index + first[0].length },
+  };
+}
+
+export interface SearchIndex {
+  /** Whether this exact note object is already indexed. */
+  has(note: Note): boolean;
+  update(note: Note): void;
+  remove(noteId: string): void;
+  noteIds(): string[];
+  /** All query terms must match, each exactly, as a prefix or within a small edit distance. */
+  search(query: string, limit?: number): SearchResult[];
+}
+
+/**
+ * Inverted index over note titles and contents. Notes are re-indexed one at a
+ * time, so keeping it current while typing only costs the edited note.
+ */
+export function createSearchIndex(): SearchIndex {
+  const postings = new Map<string, Map<string, Posting>>();
+  const noteTerms = new Map<string, Set<string>>();
+  const notes = new Map<string, Note>();
+
+  const remove = (noteId: string) => {
+    noteTerms.get(noteId)?.forEach(term => {
+      const byNote = postings.get(term);
+      byNote?.delete(noteId);
+      if (byNote?.size === 0) postings.delete(term);
+    });
+    noteTerms.delete(noteId);
+    notes.delete(noteId);
+  };
+
+  const update = (note: Note) => {
+    remove(note.id);
+    notes.set(note.id, note);
+
+    const terms = new Set<string>();
+    const add = (term: string, field: keyof Posting) => {
+      terms.add(term);
+      let byNote = postings.get(term);
+      if (!byNote) {
+        byNote = new Map();
+        postings.set(term, byNote);
+      }
+      const posting = byNote.get(note.id) ?? { title: 0, content: 0 };
+      posting[field]++;
+      byNote.set(note.id, posting);
+    };
+    tokenize(note.title).forEach(term => add(term, 'title'));
+    tokenize(note.content).forEach(term => add(term, 'content'));
+    noteTerms.set(note.id, terms);
+  };
+
+  const search = (query: string, limit = 20): SearchResult[] => {
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    const matchedTerms = new Set<string>();
+
+    for (const queryTerm of queryTerms) {
+      const termScores = new Map<string, number>();
+      const maxDistance = queryTerm.length >= 7 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+
+      for (const [term, byNote] of postings) {
+        let quality = 0;
+        if (term === queryTerm) quality = EXACT;
+        else if (term.startsWith(queryTerm)) quality = PREFIX;
+        else if (maxDistance > 0 && boundedDistance(term, queryTerm, maxDistance) <= maxDistance) quality = FUZZY;
+        if (quality === 0) continue;
+
+        matchedTerms.add(term);
+        for (const [noteId, posting] of byNote) {
+          const weight = quality * (TITLE_WEIGHT * posting.title + Math.log2(1 + posting.content));
+          termScores.set(noteId, Math.max(termScores.get(noteId) ?? 0, weight));
+        }
+      }
+
+      const previous = scores;
+      scores = new Map();
+      for (const [noteId, score] of termScores) {
+        if (previous === null || previous.has(noteId)) {
+          scores.set(noteId, (previous?.get(noteId) ?? 0) + score);
+        }
+      }
+      if (scores.size === 0) return [];
+    }
+
+    // Highlight longer terms first so "note" wins over "no" in the alternation
+    const highlightTerms = Array.from(matchedTerms).sort((a, b) => b.length - a.length);
+    return Array.from(scores ?? [])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([noteId, score]) => {
+        const note = notes.get(noteId)!;
+        return { note, score, ...buildSnippet(note.content, highlightTerms) };
+      });
+  };
+
+  return {
+    has: (note) => notes.get(note.id) === note,
+    update,
+    remove,
+    noteIds: () => Array.from(notes.keys()),
+    search,
+  };
+}
@@ -0,0 +1,68 @@
+import type { MetaKey, Note, NoteStore, StoreChange } from './note-store';
+import { createSyncChannel } from './sync-channel';
+
+// Meta keys shared between windows; the rest (open tabs, active note, view modes) are per window
+const SHARED_META = new Set<MetaKey>(['trash-retention-days', 'folders']);
+
+type SyncMessage =
+  | { type: 'put'; note: Note; baseModified?: number }
+  | { type: 'delete'; id: string }
+  | { type: 'meta'; key: MetaKey; value: unknown };
+
+/**
+ * Wraps a store so writes are announced to other windows and theirs are
+ * reported through `subscribe`. Each put carries the version (lastModified) it
+ * was based on, which lets receivers spot edits made concurrently.
+ */
+export function createBroadcastNoteStore(store: NoteStore): NoteStore {
+  const channel = createSyncChannel<SyncMessage>();
+  // Newest version of each note this window has seen
+  const seen = new Map<string, number>();
+  const see = (note: Note | undefined) => {
+    if (note) seen.set(note.id, note.lastModified);
+    return note;
+  };
+
+  return {
+    ...store,
+    async get(id) {
+      return see(await store.get(id));
+    },
+    async list() {
+      const notes = await store.list();
+      notes.forEach(see);
+      return notes;
+    },
+    async put(note) {
+      const baseModified = seen.get(note.id);
+      await store.put(note);
+      see(note);
+      channel.post({ type: 'put', note, baseModified });
+    },
+    async delete(id) {
+      await store.delete(id);
+      seen.delete(id);
+      channel.post({ type: 'delete', id });
+    },
+    async setMeta(key, value) {
+      await store.setMeta(key, value);
+      if (SHARED_META.has(key)) channel.post({ type: 'meta', key, value });
+    },
+    subscribe(listener: (change: StoreChange) => void) {
+      return channel.subscribe(message => {
+        if (message.type === 'put') {
+          const known = seen.get(message.note.id);
+          // Concurrent if the sender had not seen our latest version of the note
+          const concurrent = known !== undefined && message.baseModified !== known;
+          see(message.note);
+          listener({ type: 'put', note: message.note, concurrent });
+        } else if (message.type === 'delete') {
+          seen.delete(message.id);
+          listener(message);
+        } else {
+          listener(message);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,8 @@
+import { createBroadcastNoteStore } from './broadcast-note-store';
+import { createIndexedDBNoteStore } from './indexeddb-note-store';
+
+export type { Folder, MetaKey, Note, NoteStore, NoteViewState, Revision, StoreChange, ViewMode } from './note-store';
+export { createBroadcastNoteStore } from './broadcast-note-store';
+export { createIndexedDBNoteStore } from './indexeddb-note-store';
+
+export const defaultNoteStore = createBroadcastNoteStore(createIndexedDBNoteStore());
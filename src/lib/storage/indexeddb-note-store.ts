@@ -0,0 +1,88 @@
+import type { MetaKey, Note, NoteStore, Revision } from './note-store';
+import { migrateLocalStorage } from './migrate-local-storage';
+
+const DB_NAME = 'smart-notepad';
+const DB_VERSION = 2;
+const NOTES = 'notes';
+const META = 'meta';
+const REVISIONS = 'revisions';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    if (!db.objectStoreNames.contains(NOTES)) {
+      db.createObjectStore(NOTES, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(META)) {
+      db.createObjectStore(META);
+    }
+    if (!db.objectStoreNames.contains(REVISIONS)) {
+      const revisions = db.createObjectStore(REVISIONS, { keyPath: 'id' });
+      revisions.createIndex('noteId', 'noteId');
+    }
+  };
+  return request(req);
+}
+
+export function createIndexedDBNoteStore(): NoteStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const db = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().then(async (database) => {
+        await migrateLocalStorage(database, NOTES, META);
+        return database;
+      });
+      // Allow a retry on the next call if opening failed
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  const read = async <T>(storeName: string, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const tx = (await db()).transaction(storeName, 'readonly');
+    return request(fn(tx.objectStore(storeName)));
+  };
+
+  const write = async (storeName: string, fn: (store: IDBObjectStore) => void) => {
+    const tx = (await db()).transaction(storeName, 'readwrite');
+    fn(tx.objectStore(storeName));
+    await transactionDone(tx);
+  };
+
+  return {
+    async load() {
+      await db();
+    },
+    get: (id) => read<Note | undefined>(NOTES, (store) => store.get(id)),
+    put: (note) => write(NOTES, (store) => store.put(note)),
+    delete: (id) => write(NOTES, (store) => store.delete(id)),
+    list: () => read<Note[]>(NOTES, (store) => store.getAll()),
+    async listRevisions(noteId) {
+      const revisions = await read<Revision[]>(REVISIONS, (store) => store.index('noteId').getAll(noteId));
+      return revisions.sort((a, b) => a.lastModified - b.lastModified);
+    },
+    putRevision: (revision) => write(REVISIONS, (store) => store.put(revision)),
+    deleteRevisions: (ids) => write(REVISIONS, (store) => ids.forEach((id) => store.delete(id))),
+    getMeta: <T>(key: MetaKey) => read<T | undefined>(META, (store) => store.get(key)),
+    setMeta: (key, value) => write(META, (store) => store.put(value, key)),
+  };
+}
@@ -0,0 +1,54 @@
+import type { Note } from './note-store';
+
+// Keys used by the original single-blob localStorage persistence
+const LEGACY_NOTES_KEY = 'notepad-notes';
+const LEGACY_LAST_ACTIVE_KEY = 'notepad-last-active';
+const MIGRATED_FLAG = 'migrated-local-storage';
+
+/**
+ * One-time import of notes saved by the localStorage backend. The legacy keys
+ * are removed once the import transaction has committed.
+ */
+export function migrateLocalStorage(db: IDBDatabase, notesStore: string, metaStore: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([notesStore, metaStore], 'readwrite');
+    const meta = tx.objectStore(metaStore);
+    let imported = false;
+
+    const flag = meta.get(MIGRATED_FLAG);
+    flag.onsuccess = () => {
+      if (flag.result) return;
+
+      const raw = localStorage.getItem(LEGACY_NOTES_KEY);
+      let notes: Note[] = [];
+      try {
+        notes = raw ? JSON.parse(raw) : [];
+      } catch {
+        // Corrupt blob: nothing to import, but don't retry on every start
+        notes = [];
+      }
+
+      const store = tx.objectStore(notesStore);
+      notes.forEach((note) => store.put(note));
+      if (notes.length > 0) {
+        meta.put(notes.map((note) => note.id), 'tab-order');
+      }
+      const lastActive = localStorage.getItem(LEGACY_LAST_ACTIVE_KEY);
+      if (lastActive) {
+        meta.put(lastActive, 'last-active');
+      }
+      meta.put(true, MIGRATED_FLAG);
+      imported = raw !== null || lastActive !== null;
+    };
+
+    tx.oncomplete = () => {
+      if (imported) {
+        localStorage.removeItem(LEGACY_NOTES_KEY);
+        localStorage.removeItem(LEGACY_LAST_ACTIVE_KEY);
+      }
+      resolve();
+    };
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,66 @@
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  lastModified: number;
+  /** Notebook the note is filed in; unset for notes at the top level. */
+  folderId?: string;
+  /** Tags set by hand; inline #hashtags are read from the content. */
+  tags?: string[];
+  /** Set while the note is in the trash. */
+  trashedAt?: number;
+  /** Tab position the note was trashed from, used when it is restored. */
+  trashedFromIndex?: number;
+}
+
+// A snapshot of a note taken on save; lastModified is when it was taken
+export interface Revision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  lastModified: number;
+}
+
+// A notebook in the sidebar tree; parentId is null at the top level
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+export type ViewMode = 'edit' | 'split' | 'preview';
+
+// How a note was last displayed; splitRatio is the editor width in percent
+export interface NoteViewState {
+  mode: ViewMode;
+  splitRatio: number;
+}
+
+// Workspace metadata kept next to the notes (open tabs in order, last active note, ...)
+export type MetaKey = 'tab-order' | 'pinned-tabs' | 'last-active' | 'view-state' | 'trash-retention-days' | 'folders';
+
+// A write made by another instance of the app (e.g. another browser tab).
+// Hooks holding store state mirror it through their `applyRemote`, which only
+// updates state: the other instance has already saved the change.
+export type StoreChange =
+  | { type: 'put'; note: Note; concurrent: boolean }
+  | { type: 'delete'; id: string }
+  | { type: 'meta'; key: MetaKey; value: unknown };
+
+export interface NoteStore {
+  /** Opens the backend and runs any pending migrations. Safe to call more than once. */
+  load(): Promise<void>;
+  get(id: string): Promise<Note | undefined>;
+  put(note: Note): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<Note[]>;
+  /** Revisions of one note, oldest first. */
+  listRevisions(noteId: string): Promise<Revision[]>;
+  putRevision(revision: Revision): Promise<void>;
+  deleteRevisions(ids: string[]): Promise<void>;
+  getMeta<T>(key: MetaKey): Promise<T | undefined>;
+  setMeta<T>(key: MetaKey, value: T): Promise<void>;
+  /** Reports writes made elsewhere, for backends shared between windows. */
+  subscribe?(listener: (change: StoreChange) => void): () => void;
+}
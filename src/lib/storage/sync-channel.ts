@@ -0,0 +1,51 @@
+// Messaging between app instances in other tabs/windows of the same origin.
+// BroadcastChannel where available, otherwise `storage` events on a
+// scratch localStorage key.
+
+const CHANNEL_NAME = 'smart-notepad-sync';
+const STORAGE_KEY = 'notepad-sync';
+
+export interface SyncChannel<T> {
+  post(message: T): void;
+  subscribe(listener: (message: T) => void): () => void;
+}
+
+export function createSyncChannel<T>(): SyncChannel<T> {
+  const listeners = new Set<(message: T) => void>();
+  const emit = (message: T) => listeners.forEach(listener => listener(message));
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<T>) => emit(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+  }
+
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      emit(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore malformed values written by something else
+    }
+  });
+  return {
+    post(message) {
+      try {
+        // The nonce makes repeated identical messages still count as a change
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: Math.random() }));
+      } catch {
+        // Over quota: other windows will pick the change up on reload
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
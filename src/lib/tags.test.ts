@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { inlineTags, normalizeTag, renameTag } from '@/lib/tags';
+import type { Note } from '@/lib/storage';
+
+const note = (content: string, tags?: string[]): Note => ({ id: '1', title: 'Note', content, lastModified: 0, tags });
+
+describe('inlineTags', () => {
+  it('reads hashtags in lowercase, nested ones included', () => {
+    expect(inlineTags('#Work and #work/Q3, (#idea) #trailing-')).toEqual(['work', 'work/q3', 'idea', 'trailing']);
+  });
+
+  it('ignores # inside URLs, HTML entities and words', () => {
+    const content = 'https://example.com/page#section https://example.com/#/route &#35; &#x23; C# a#b ##double';
+    expect(inlineTags(content)).toEqual([]);
+  });
+
+  it('ignores code, headings and issue numbers', () => {
+    expect(inlineTags('# Heading\n`#code`\n```\n#fenced\n```\nFixes #12')).toEqual([]);
+  });
+});
+
+describe('normalizeTag', () => {
+  it('lowercases and drops the "#" and trailing separators', () => {
+    expect(normalizeTag('  #Road Map/ ')).toBe('road-map');
+  });
+});
+
+describe('renameTag', () => {
+  it('renames hashtags of any case and explicit tags', () => {
+    const renamed = renameTag(note('#Work and #WORK', ['Work']), 'work', 'job');
+    expect(renamed?.content).toBe('#job and #job');
+    expect(renamed?.tags).toEqual(['job']);
+  });
+
+  it('merges into a tag the note already has', () => {
+    const renamed = renameTag(note('#draft #final', ['draft', 'final']), 'draft', 'final');
+    expect(renamed?.content).toBe('#final #final');
+    expect(renamed?.tags).toEqual(['final']);
+  });
+
+  it('leaves longer tags, nested tags, code and URLs alone', () => {
+    const content = '#work #workshop #work/q3 `#work` https://example.com/#work &#work;';
+    expect(renameTag(note(content), 'work', 'job')?.content)
+      .toBe('#job #workshop #work/q3 `#work` https://example.com/#work &#work;');
+  });
+
+  it('returns undefined when the note does not use the tag', () => {
+    expect(renameTag(note('#workshop `#work`'), 'work', 'job')).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { rankOptions, type CompletionSource } from '@/lib/completion';
+import { maskCode } from '@/lib/markdown-code';
+import { cachedPerNote } from '@/lib/note-cache';
+import type { Note } from '@/lib/storage';
+
+export type TagMatchMode = 'and' | 'or';
+
+export interface TagFilter {
+  tags: string[];
+  mode: TagMatchMode;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// `#tag` preceded by the start of a line or a character that cannot be part of
+// a word, URL fragment or HTML entity. Tags may nest with "/" (e.g. #work/q3).
+const HASHTAG = /(^|[^\p{L}\p{N}_#&/\\])#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)/gmu;
+
+/** Lowercase tag without the leading "#"; spaces become dashes. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').replace(/[-/]+$/, '').toLowerCase();
+}
+
+interface HashtagMatch {
+  tag: string;
+  /** Range of the "#tag" text, including the "#". */
+  start: number;
+  end: number;
+}
+
+function findHashtags(content: string): HashtagMatch[] {
+  const matches: HashtagMatch[] = [];
+  for (const match of maskCode(content).matchAll(HASHTAG)) {
+    const name = match[2].replace(/[-/]+$/, '');
+    // Plain numbers are issue references (#12), not tags
+    if (/^\d+$/.test(name)) continue;
+    const start = match.index + match[1].length;
+    matches.push({ tag: name.toLowerCase(), start, end: start + 1 + name.length });
+  }
+  return matches;
+}
+
+export function inlineTags(content: string): string[] {
+  return [...new Set(findHashtags(content).map(match => match.tag))];
+}
+
+/** Explicit and inline tags of a note, sorted. */
+export const noteTags = cachedPerNote((note): string[] =>
+  [...new Set([...(note.tags ?? []).map(normalizeTag), ...inlineTags(note.content)])]
+    .filter(Boolean)
+    .sort()
+);
+
+export function tagCounts(notes: Note[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    for (const tag of noteTags(note)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts].map(([tag, count]) => ({ tag, count })).sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+export function matchesTagFilter(note: Note, filter: TagFilter): boolean {
+  if (filter.tags.length === 0) return true;
+  const tags = noteTags(note);
+  return filter.mode === 'and'
+    ? filter.tags.every(tag => tags.includes(tag))
+    : filter.tags.some(tag => tags.includes(tag));
+}
+
+/**
+ * Renames a tag in the note's explicit tags and inline hashtags. Renaming to a
+ * tag the note already has merges the two. Returns undefined when the note
+ * does not use the tag.
+ */
+export function renameTag(note: Note, from: string, to: string): Note | undefined {
+  const explicit = note.tags ?? [];
+  const hasExplicit = explicit.some(tag => normalizeTag(tag) === from);
+  const hashtags = findHashtags(note.content).filter(match => match.tag === from);
+  if (!hasExplicit && hashtags.length === 0) return undefined;
+
+  let content = note.content;
+  for (const match of [...hashtags].reverse()) {
+    content = content.slice(0, match.start) + `#${to}` + content.slice(match.end);
+  }
+  const tags = hasExplicit
+    ? [...new Set(explicit.map(tag => (normalizeTag(tag) === from ? to : tag)))]
+    : note.tags;
+  return { ...note, content, tags };
+}
+
+/** Suggests known tags while a #hashtag is being typed. */
+export function hashtagCompletion(knownTags: string[]): CompletionSource {
+  return {
+    trigger: /(?:^|[^\p{L}\p{N}_#&/\\])#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)$/u,
+    options: query => rankOptions(knownTags, query.toLowerCase()),
+    insert: tag => tag,
+    label: tag => `#${tag}`,
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { findTasks, taskProgress, toggleTask, toggleTaskLines } from '@/lib/tasks';
+
+// Applies the toggle for a selection to the whole content
+function toggleLines(content: string, start: number, end = start): string {
+  const edit = toggleTaskLines(content, start, end);
+  return content.slice(0, edit.from) + edit.text + content.slice(edit.to);
+}
+
+describe('findTasks', () => {
+  it('finds bullet, numbered, indented and quoted tasks', () => {
+    const content = '- [ ] one\n* [x] two\n  1. [ ] three\n> 2) [X] four\nnot - [ ] a task';
+    expect(findTasks(content).map(({ line, checked, text }) => ({ line, checked, text }))).toEqual([
+      { line: 0, checked: false, text: 'one' },
+      { line: 1, checked: true, text: 'two' },
+      { line: 2, checked: false, text: 'three' },
+      { line: 3, checked: true, text: 'four' },
+    ]);
+  });
+
+  it('ignores checkboxes inside code', () => {
+    expect(findTasks('```\n- [ ] code\n```\n`- [ ] inline`\n- [ ] real')).toHaveLength(1);
+  });
+
+  it('counts progress', () => {
+    expect(taskProgress(findTasks('- [x] a\n- [ ] b\n- [X] c'))).toEqual({ done: 2, total: 3 });
+  });
+});
+
+describe('toggleTask', () => {
+  it('flips the box on the given line only', () => {
+    expect(toggleTask('- [ ] a\n- [x] b', 0)).toBe('- [x] a\n- [x] b');
+    expect(toggleTask('- [ ] a\n- [x] b', 1)).toBe('- [ ] a\n- [ ] b');
+  });
+
+  it('keeps numbering and indentation', () => {
+    expect(toggleTask('  1. [ ] item', 0)).toBe('  1. [x] item');
+    expect(toggleTask('> 3) [X] quoted', 0)).toBe('> 3) [ ] quoted');
+  });
+
+  it('returns undefined for lines that are not tasks', () => {
+    expect(toggleTask('plain\n- [ ] a', 0)).toBeUndefined();
+    expect(toggleTask('```\n- [ ] code\n```', 1)).toBeUndefined();
+    expect(toggleTask('- [ ] a', 5)).toBeUndefined();
+  });
+});
+
+describe('toggleTaskLines', () => {
+  it('turns a plain line into an open task, keeping quotes and indentation', () => {
+    expect(toggleLines('buy milk', 3)).toBe('- [ ] buy milk');
+    expect(toggleLines('  > note', 5)).toBe('  > - [ ] note');
+  });
+
+  it('adds a box to list items, numbered and indented ones included', () => {
+    expect(toggleLines('- item', 0)).toBe('- [ ] item');
+    expect(toggleLines('  1. item', 0)).toBe('  1. [ ] item');
+  });
+
+  it('checks and unchecks a numbered, indented task', () => {
+    const checked = toggleLines('  1. [ ] item', 0);
+    expect(checked).toBe('  1. [x] item');
+    expect(toggleLines(checked, 0)).toBe('  1. [ ] item');
+  });
+
+  it('checks every task in a mixed selection, then unchecks them all', () => {
+    const content = '- [x] a\n- [ ] b\n- [x] c';
+    const checked = toggleLines(content, 0, content.length);
+    expect(checked).toBe('- [x] a\n- [x] b\n- [x] c');
+    expect(toggleLines(checked, 0, checked.length)).toBe('- [ ] a\n- [ ] b\n- [ ] c');
+  });
+
+  it('only touches the selected lines and leaves blank ones alone', () => {
+    const content = 'before\none\n\ntwo\nafter';
+    const start = content.indexOf('one') + 1;
+    const end = content.indexOf('two') + 1;
+    expect(toggleLines(content, start, end)).toBe('before\n- [ ] one\n\n- [ ] two\nafter');
+  });
+});
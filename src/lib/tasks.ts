@@ -0,0 +1,96 @@
+import { maskCode } from '@/lib/markdown-code';
+import { cachedPerNote } from '@/lib/note-cache';
+
+export interface Task {
+  /** 0-based line of the task in the note. */
+  line: number;
+  /** Offsets of the whole line, for jumping to it. */
+  start: number;
+  end: number;
+  checked: boolean;
+  /** The item text after the checkbox. */
+  text: string;
+}
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+// "- [ ] text", "* [x] text" or "1. [ ] text", optionally inside block quotes.
+// Group 1 is everything up to the box, group 2 the mark inside it.
+const TASK_LINE = /^((?:[ \t]*>)*[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+\[)([ xX])\](?=[ \t]|$)/;
+// A list item without a checkbox yet
+const LIST_ITEM = /^((?:[ \t]*>)*[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+)/;
+// Quote markers and indentation in front of plain text
+const LINE_PREFIX = /^((?:[ \t]*>)*[ \t]*)/;
+
+export function findTasks(content: string): Task[] {
+  const tasks: Task[] = [];
+  const masked = maskCode(content).split('\n');
+  const lines = content.split('\n');
+  let start = 0;
+  lines.forEach((text, line) => {
+    // Masked lines are the same length, so a match there lines up with the source
+    const match = TASK_LINE.exec(masked[line]);
+    if (match) {
+      tasks.push({
+        line,
+        start,
+        end: start + text.length,
+        checked: match[2] !== ' ',
+        text: text.slice(match[0].length).trim(),
+      });
+    }
+    start += text.length + 1;
+  });
+  return tasks;
+}
+
+export const noteTasks = cachedPerNote(note => findTasks(note.content));
+
+export function taskProgress(tasks: Task[]): TaskProgress {
+  return { done: tasks.filter(task => task.checked).length, total: tasks.length };
+}
+
+/** Flips the checkbox on `line`; undefined when that line is not a task. */
+export function toggleTask(content: string, line: number): string | undefined {
+  const task = findTasks(content).find(candidate => candidate.line === line);
+  if (!task) return undefined;
+  const lines = content.split('\n');
+  lines[line] = lines[line].replace(TASK_LINE, (_, prefix: string) => `${prefix}${task.checked ? ' ' : 'x'}]`);
+  return lines.join('\n');
+}
+
+export interface TaskLinesEdit {
+  /** Range of whole lines to replace, and what replaces it. */
+  from: number;
+  to: number;
+  text: string;
+}
+
+/**
+ * The editor's toggle for the lines touched by the selection `start`–`end`.
+ * Tasks are checked, or all unchecked when every one already is; list items
+ * and plain lines become open tasks. Blank lines are left alone.
+ */
+export function toggleTaskLines(content: string, start: number, end: number): TaskLinesEdit {
+  const from = content.slice(0, start).lastIndexOf('\n') + 1;
+  const lineEnd = content.indexOf('\n', end);
+  const to = lineEnd === -1 ? content.length : lineEnd;
+  const lines = content.slice(from, to).split('\n');
+
+  const tasks = lines.map(line => TASK_LINE.exec(line));
+  const check = tasks.some(task => task && task[2] === ' ');
+
+  const text = lines.map((line, i) => {
+    const task = tasks[i];
+    if (task) return line.replace(TASK_LINE, (_, prefix: string) => `${prefix}${check ? 'x' : ' '}]`);
+    if (/^[ \t>]*$/.test(line)) return line;
+    const item = LIST_ITEM.exec(line);
+    if (item) return `${item[1]}[ ] ${line.slice(item[1].length)}`;
+    const prefix = LINE_PREFIX.exec(line)![1];
+    return `${prefix}- [ ] ${line.slice(prefix.length)}`;
+  }).join('\n');
+  return { from, to, text };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { changedRange, createUndoHistory, recordEdit, redoEdit, undoEdit, type UndoHistory } from '@/lib/undo';
+
+// Types `text` at the end of `content` one character at a time, `gap` ms apart
+function type(history: UndoHistory, content: string, text: string, start: number, gap = 100): string {
+  let current = content;
+  [...text].forEach((char, i) => {
+    const next = current + char;
+    recordEdit(history, current, next, start + i * gap);
+    current = next;
+  });
+  return current;
+}
+
+// Undoes every step, returning the contents shown along the way
+function undoAll(history: UndoHistory, current: string): string[] {
+  const shown: string[] = [];
+  for (let previous = undoEdit(history, current); previous !== undefined; previous = undoEdit(history, current)) {
+    shown.push(previous);
+    current = previous;
+  }
+  return shown;
+}
+
+describe('changedRange', () => {
+  it('finds the single span that differs', () => {
+    expect(changedRange('hello world', 'hello there world')).toEqual({ start: 6, beforeEnd: 6, afterEnd: 12 });
+    expect(changedRange('aaa', 'aa')).toEqual({ start: 2, beforeEnd: 3, afterEnd: 2 });
+  });
+});
+
+describe('recordEdit', () => {
+  it('makes one typing run a single step', () => {
+    const history = createUndoHistory();
+    const typed = type(history, 'a', 'bcdef', 0);
+    expect(typed).toBe('abcdef');
+    expect(undoAll(history, typed)).toEqual(['a']);
+  });
+
+  it('starts a new step after a pause', () => {
+    const history = createUndoHistory();
+    const first = type(history, '', 'one', 0);
+    const second = type(history, first, ' two', 5000);
+    expect(undoAll(history, second)).toEqual(['one', '']);
+  });
+
+  it('starts a new step when typing moves elsewhere', () => {
+    const history = createUndoHistory();
+    recordEdit(history, 'ab', 'aXb', 0);
+    recordEdit(history, 'aXb', 'aXbY', 100);
+    expect(undoAll(history, 'aXbY')).toEqual(['aXb', 'ab']);
+  });
+
+  it('keeps a paste as its own step', () => {
+    const history = createUndoHistory();
+    const typed = type(history, '', 'ab', 0);
+    recordEdit(history, typed, `${typed}pasted`, 150);
+    const more = type(history, `${typed}pasted`, 'cd', 200);
+    expect(undoAll(history, more)).toEqual(['abpasted', 'ab', '']);
+  });
+
+  it('joins a run of Backspaces', () => {
+    const history = createUndoHistory();
+    recordEdit(history, 'abcd', 'abc', 0);
+    recordEdit(history, 'abc', 'ab', 100);
+    recordEdit(history, 'ab', 'a', 200);
+    expect(undoAll(history, 'a')).toEqual(['abcd']);
+  });
+
+  it('joins a run of Deletes at the same position', () => {
+    const history = createUndoHistory();
+    recordEdit(history, 'abcd', 'acd', 0);
+    recordEdit(history, 'acd', 'ad', 100);
+    expect(undoAll(history, 'ad')).toEqual(['abcd']);
+  });
+
+  it('does not join deleting with typing', () => {
+    const history = createUndoHistory();
+    recordEdit(history, 'abc', 'ab', 0);
+    recordEdit(history, 'ab', 'abX', 100);
+    expect(undoAll(history, 'abX')).toEqual(['ab', 'abc']);
+  });
+
+  it('clears redo on a new edit', () => {
+    const history = createUndoHistory();
+    recordEdit(history, '', 'a', 0);
+    expect(undoEdit(history, 'a')).toBe('');
+    expect(redoEdit(history, '')).toBe('a');
+    expect(undoEdit(history, 'a')).toBe('');
+    recordEdit(history, '', 'b', 5000);
+    expect(redoEdit(history, 'b')).toBeUndefined();
+    expect(undoEdit(history, 'b')).toBe('');
+  });
+
+  it('starts a new step after undo and redo', () => {
+    const history = createUndoHistory();
+    const typed = type(history, '', 'ab', 0);
+    expect(redoEdit(history, typed)).toBeUndefined();
+    expect(undoEdit(history, typed)).toBe('');
+    expect(redoEdit(history, '')).toBe('ab');
+    recordEdit(history, 'ab', 'abc', 250);
+    expect(undoAll(history, 'abc')).toEqual(['ab', '']);
+  });
+
+  it('keeps at most 200 steps, dropping the oldest', () => {
+    const history = createUndoHistory();
+    let content = '';
+    for (let i = 0; i < 250; i++) {
+      const next = `${content}${i}\n`;
+      recordEdit(history, content, next, i * 5000);
+      content = next;
+    }
+    expect(history.undo).toHaveLength(200);
+    const shown = undoAll(history, content);
+    expect(shown).toHaveLength(200);
+    expect(shown.at(-1)).toBe(Array.from({ length: 50 }, (_, i) => `${i}\n`).join(''));
+  });
+});
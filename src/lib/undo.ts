@@ -0,0 +1,94 @@
+// Undo steps kept per note
+const MAX_UNDO_STEPS = 200;
+
+// Keystrokes closer together than this form one undo step
+const BURST_INTERVAL = 1000;
+
+type BurstKind = 'insert' | 'delete';
+
+/**
+ * Content snapshots of one note, newest last. Typing a run of characters (or
+ * deleting one) in one place is a single step; pastes, replacements and any
+ * programmatic edit are steps of their own.
+ */
+export interface UndoHistory {
+  undo: string[];
+  redo: string[];
+  /** The typing burst the next keystroke may join. */
+  burst?: { kind: BurstKind; at: number; position: number };
+}
+
+export interface ChangedRange {
+  start: number;
+  /** End of the changed text in the old content. */
+  beforeEnd: number;
+  /** End of the changed text in the new content. */
+  afterEnd: number;
+}
+
+/** The single span that differs between two strings (common prefix and suffix removed). */
+export function changedRange(before: string, after: string): ChangedRange {
+  let start = 0;
+  const shorter = Math.min(before.length, after.length);
+  while (start < shorter && before[start] === after[start]) start++;
+  let suffix = 0;
+  while (
+    suffix < shorter - start
+    && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+  return { start, beforeEnd: before.length - suffix, afterEnd: after.length - suffix };
+}
+
+export function createUndoHistory(): UndoHistory {
+  return { undo: [], redo: [] };
+}
+
+// A single typed character or a single deleted one, which may extend a burst
+function keystroke(before: string, after: string): { kind: BurstKind; range: ChangedRange } | undefined {
+  const range = changedRange(before, after);
+  const inserted = after.slice(range.start, range.afterEnd);
+  const removed = before.slice(range.start, range.beforeEnd);
+  if (removed === '' && inserted.length === 1 && inserted !== '\n') return { kind: 'insert', range };
+  if (inserted === '' && removed.length === 1) return { kind: 'delete', range };
+  return undefined;
+}
+
+export function recordEdit(history: UndoHistory, before: string, after: string, now = Date.now()) {
+  if (before === after) return;
+  history.redo = [];
+
+  const stroke = keystroke(before, after);
+  const burst = history.burst;
+  const continuesBurst = stroke && burst && burst.kind === stroke.kind && now - burst.at < BURST_INTERVAL
+    && (stroke.kind === 'insert'
+      ? stroke.range.start === burst.position
+      // Backspace ends where the last one started; Delete stays in place
+      : stroke.range.beforeEnd === burst.position || stroke.range.start === burst.position);
+
+  if (!continuesBurst) {
+    history.undo.push(before);
+    if (history.undo.length > MAX_UNDO_STEPS) history.undo.shift();
+  }
+  history.burst = stroke && {
+    kind: stroke.kind,
+    at: now,
+    position: stroke.kind === 'insert' ? stroke.range.afterEnd : stroke.range.start,
+  };
+}
+
+/** Steps back from `current`; returns the content to show, if there is a step. */
+export function undoEdit(history: UndoHistory, current: string): string | undefined {
+  const previous = history.undo.pop();
+  if (previous === undefined) return undefined;
+  history.redo.push(current);
+  history.burst = undefined;
+  return previous;
+}
+
+export function redoEdit(history: UndoHistory, current: string): string | undefined {
+  const next = history.redo.pop();
+  if (next === undefined) return undefined;
+  history.undo.push(current);
+  history.burst = undefined;
+  return next;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { findWikiLinks, linkMentions, renameWikiLinks } from '@/lib/wiki-links';
+
+describe('findWikiLinks', () => {
+  it('reads targets and aliases, skipping code', () => {
+    const links = findWikiLinks('[[One]] and [[ Two | the second ]] `[[Code]]`\n```\n[[Fenced]]\n```');
+    expect(links.map(({ target, label }) => ({ target, label }))).toEqual([
+      { target: 'One', label: 'One' },
+      { target: 'Two', label: 'the second' },
+    ]);
+  });
+});
+
+describe('renameWikiLinks', () => {
+  it('renames links to the old title, whatever their case', () => {
+    expect(renameWikiLinks('See [[Old]] and [[old]].', 'Old', 'New')).toBe('See [[New]] and [[New]].');
+  });
+
+  it('keeps the alias of an aliased link', () => {
+    expect(renameWikiLinks('[[Old|the old one]]', 'Old', 'New')).toBe('[[New|the old one]]');
+  });
+
+  it('leaves links inside code alone', () => {
+    const content = '`[[Old]]`\n```\n[[Old]]\n```\n[[Old]]';
+    expect(renameWikiLinks(content, 'Old', 'New')).toBe('`[[Old]]`\n```\n[[Old]]\n```\n[[New]]');
+  });
+
+  it('only renames whole titles', () => {
+    const content = '[[OldX]] [[Old notes]] [[X Old]]';
+    expect(renameWikiLinks(content, 'Old', 'New')).toBe(content);
+  });
+});
+
+describe('linkMentions', () => {
+  it('links whole-word mentions, keeping their wording as the alias', () => {
+    expect(linkMentions('Project plan. The project is late.', 'Project'))
+      .toBe('[[Project]] plan. The [[Project|project]] is late.');
+  });
+
+  it('skips partial words', () => {
+    const content = 'Projects, ProjectX and subProject stay.';
+    expect(linkMentions(content, 'Project')).toBe(content);
+  });
+
+  it('skips code and existing links, aliased ones included', () => {
+    const content = '`Project` [[Project]] [[Other|Project]]\n```\nProject\n```';
+    expect(linkMentions(content, 'Project')).toBe(content);
+  });
+
+  it('ignores titles too short to tell apart from ordinary words', () => {
+    expect(linkMentions('an AI note', 'AI')).toBe('an AI note');
+  });
+});
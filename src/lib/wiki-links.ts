@@ -0,0 +1,139 @@
+import { rankOptions, type CompletionSource } from '@/lib/completion';
+import { maskCode } from '@/lib/markdown-code';
+import { cachedPerNote } from '@/lib/note-cache';
+import type { Note } from '@/lib/storage';
+import { escapeRegExp } from '@/lib/utils';
+
+export interface WikiLink {
+  /** Title of the linked note, as written. */
+  target: string;
+  /** Text shown for the link: the alias after "|", or the target. */
+  label: string;
+  /** Range of the whole "[[...]]" text. */
+  start: number;
+  end: number;
+}
+
+export interface NoteReference {
+  note: Note;
+  /** Lines of the note where the reference appears. */
+  snippets: string[];
+}
+
+// [[Target]] or [[Target|label]], on a single line
+const WIKI_LINK = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+// Titles shorter than this match too much ordinary text to report as mentions
+const MIN_MENTION_LENGTH = 3;
+
+const SNIPPET_LENGTH = 120;
+
+function toLink(match: RegExpMatchArray, start: number): WikiLink | undefined {
+  const target = match[1].trim();
+  if (!target) return undefined;
+  return { target, label: match[2]?.trim() || target, start, end: start + match[0].length };
+}
+
+/** Parses a wiki link at the very start of `text`. */
+export function matchWikiLink(text: string): (WikiLink & { raw: string }) | undefined {
+  const match = new RegExp(`^${WIKI_LINK.source}`).exec(text);
+  const link = match && toLink(match, 0);
+  return link ? { ...link, raw: match[0] } : undefined;
+}
+
+export function findWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  for (const match of maskCode(content).matchAll(WIKI_LINK)) {
+    const link = toLink(match, match.index);
+    if (link) links.push(link);
+  }
+  return links;
+}
+
+/** Titles are matched case-insensitively and ignoring surrounding space. */
+export function titleKey(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+export function findNoteByTitle(notes: Note[], title: string): Note | undefined {
+  const key = titleKey(title);
+  return notes.find(note => titleKey(note.title) === key);
+}
+
+const linkTargets = cachedPerNote(note => new Set(findWikiLinks(note.content).map(link => titleKey(link.target))));
+
+function snippet(content: string, index: number): string {
+  const start = content.lastIndexOf('\n', index - 1) + 1;
+  const end = content.indexOf('\n', index);
+  const line = content.slice(start, end === -1 ? undefined : end).trim();
+  return line.length > SNIPPET_LENGTH ? `${line.slice(0, SNIPPET_LENGTH - 1)}…` : line;
+}
+
+/** Notes other than `target` that contain a [[link]] to it. */
+export function backlinks(notes: Note[], target: Note): NoteReference[] {
+  const key = titleKey(target.title);
+  return notes
+    .filter(note => note.id !== target.id && linkTargets(note).has(key))
+    .map(note => ({
+      note,
+      snippets: findWikiLinks(note.content)
+        .filter(link => titleKey(link.target) === key)
+        .map(link => snippet(note.content, link.start)),
+    }));
+}
+
+// Whole-word, case-insensitive occurrences of a title outside code and links
+function findMentions(content: string, title: string): { start: number; end: number }[] {
+  const text = title.trim();
+  if (text.length < MIN_MENTION_LENGTH) return [];
+  const masked = maskCode(content).replace(WIKI_LINK, link => ' '.repeat(link.length));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(text)}(?![\\p{L}\\p{N}_])`, 'giu');
+  return [...masked.matchAll(pattern)].map(match => ({ start: match.index, end: match.index + match[0].length }));
+}
+
+/** Notes that name `target` in plain text without linking to it. */
+export function unlinkedMentions(notes: Note[], target: Note): NoteReference[] {
+  const key = titleKey(target.title);
+  return notes
+    .filter(note => note.id !== target.id && !linkTargets(note).has(key))
+    .map(note => ({
+      note,
+      snippets: findMentions(note.content, target.title).map(mention => snippet(note.content, mention.start)),
+    }))
+    .filter(reference => reference.snippets.length > 0);
+}
+
+/** Turns every plain-text mention of `title` into a [[link]], keeping the original wording. */
+export function linkMentions(content: string, title: string): string {
+  let linked = content;
+  for (const { start, end } of findMentions(content, title).reverse()) {
+    const text = content.slice(start, end);
+    const link = text === title.trim() ? `[[${text}]]` : `[[${title.trim()}|${text}]]`;
+    linked = linked.slice(0, start) + link + linked.slice(end);
+  }
+  return linked;
+}
+
+/**
+ * Points links aimed at `from` to `to`, keeping any alias. Returns the content
+ * unchanged when nothing links to `from`.
+ */
+export function renameWikiLinks(content: string, from: string, to: string): string {
+  const key = titleKey(from);
+  let renamed = content;
+  for (const link of findWikiLinks(content).reverse()) {
+    if (titleKey(link.target) !== key) continue;
+    const alias = link.label !== link.target ? `|${link.label}` : '';
+    renamed = renamed.slice(0, link.start) + `[[${to}${alias}]]` + renamed.slice(link.end);
+  }
+  return renamed;
+}
+
+/** Suggests note titles after "[[". */
+export function wikiLinkCompletion(titles: string[]): CompletionSource {
+  return {
+    trigger: /\[\[([^[\]|\n]*)$/,
+    options: query => rankOptions(titles, query),
+    insert: title => `${title}]]`,
+  };
+}